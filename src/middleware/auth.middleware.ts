@@ -0,0 +1,172 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import { ApiKey, ApiRole, UserRole } from "../models/airtable.model";
+import { getBasePermission, hasPermission } from "../services/access.service";
+
+export interface Principal {
+  type: "apiKey" | "session";
+  id: string;
+  role: ApiRole;
+  airtableUserId?: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+    }
+  }
+}
+
+const ROLE_RANK: Record<ApiRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3,
+};
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): string {
+  return `atk_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+function readApiKey(req: Request): string | null {
+  const header = req.header("x-api-key");
+  if (header) return header;
+
+  const authorization = req.header("authorization") || "";
+  return authorization.startsWith("ApiKey ")
+    ? authorization.slice("ApiKey ".length)
+    : null;
+}
+
+/**
+ * ADMIN_API_KEY is an out-of-band admin credential used to create the first
+ * real API keys and role assignments.
+ */
+function isBootstrapKey(key: string): boolean {
+  const bootstrap = process.env.ADMIN_API_KEY;
+  if (!bootstrap) return false;
+
+  return crypto.timingSafeEqual(
+    Buffer.from(hashApiKey(key)),
+    Buffer.from(hashApiKey(bootstrap))
+  );
+}
+
+async function resolvePrincipal(req: Request): Promise<Principal | null> {
+  const key = readApiKey(req);
+
+  if (key) {
+    if (isBootstrapKey(key)) {
+      return { type: "apiKey", id: "bootstrap", role: "admin" };
+    }
+
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { keyHash: hashApiKey(key), revokedAt: { $exists: false } },
+      { lastUsedAt: new Date() }
+    );
+
+    return apiKey
+      ? {
+          type: "apiKey",
+          id: apiKey.id,
+          role: apiKey.role,
+          airtableUserId: apiKey.airtableUserId,
+        }
+      : null;
+  }
+
+  // Browser clients: the session is established by the OAuth callback
+  const airtableUserId = req.session?.connectionId;
+
+  if (airtableUserId) {
+    const assigned = await UserRole.findOne({ airtableUserId });
+    const role =
+      assigned?.role ||
+      (process.env.SESSION_DEFAULT_ROLE as ApiRole) ||
+      "operator";
+
+    return { type: "session", id: airtableUserId, role, airtableUserId };
+  }
+
+  return null;
+}
+
+/**
+ * Rejects requests that carry neither a valid API key nor an authenticated
+ * browser session, and attaches the caller as req.principal.
+ */
+export async function authenticate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const principal = await resolvePrincipal(req);
+
+    if (!principal) {
+      return res.status(401).json({
+        error: "Authentication required",
+        message: "Provide an API key or sign in",
+      });
+    }
+
+    req.principal = principal;
+    next();
+  } catch (error: any) {
+    console.error("[Auth] Failed to resolve caller:", error.message);
+    res.status(500).json({ error: "Failed to authenticate request" });
+  }
+}
+
+/**
+ * Allows the request through when the caller's role is at least `minimum`
+ * (admin > operator > viewer). Authenticates first if needed.
+ */
+export function requireRole(minimum: ApiRole) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const check = () => {
+      const role = req.principal!.role;
+
+      if (ROLE_RANK[role] < ROLE_RANK[minimum]) {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: `Requires ${minimum} role (caller is ${role})`,
+        });
+      }
+
+      next();
+    };
+
+    if (req.principal) return check();
+    return authenticate(req, res, check);
+  };
+}
+
+/**
+ * Requires the caller to hold at least `minimum` on the base named by
+ * req.params.baseId (e.g. comment-only collaborators can't trigger syncs).
+ */
+export function requireBasePermission(minimum: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { baseId } = req.params;
+      const level = await getBasePermission(req.principal, baseId);
+
+      if (!hasPermission(level, minimum)) {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: `Requires ${minimum} permission on base ${baseId}`,
+        });
+      }
+
+      next();
+    } catch (error: any) {
+      console.error("[Access] Permission check failed:", error.message);
+      res.status(500).json({ error: "Failed to check base permission" });
+    }
+  };
+}
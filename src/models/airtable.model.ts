@@ -1,9 +1,16 @@
 import mongoose, { Schema, Document } from "mongoose";
 
+export type CredentialType = "oauth" | "pat";
+
 export interface IOAuthToken extends Document {
+  connectionId: string;
+  email?: string;
+  credentialType: CredentialType;
   accessToken: string;
+  accessTokenKeyId?: string;
   refreshToken: string;
-  expiresAt: Date;
+  refreshTokenKeyId?: string;
+  expiresAt?: Date;
   scope: string;
   createdAt: Date;
   updatedAt: Date;
@@ -11,20 +18,43 @@ export interface IOAuthToken extends Document {
 
 const OAuthTokenSchema = new Schema<IOAuthToken>(
   {
+    connectionId: {
+      type: String,
+      required: true,
+      unique: true,
+      description:
+        "Airtable user id (usrXXXXXXXXXXXXXX) that owns this connection",
+    },
+    email: {
+      type: String,
+      description: "Email of the connected Airtable account",
+    },
+    credentialType: {
+      type: String,
+      enum: ["oauth", "pat"],
+      default: "oauth",
+      description: "OAuth grant or Airtable Personal Access Token",
+    },
     accessToken: {
       type: String,
       required: true,
-      description: "OAuth 2.0 access token for Airtable API",
+      description: "OAuth 2.0 access token for Airtable API (encrypted)",
+    },
+    accessTokenKeyId: {
+      type: String,
+      description: "Encryption key id for accessToken (unset = plaintext)",
     },
     refreshToken: {
       type: String,
-      required: true,
-      description: "OAuth 2.0 refresh token for token renewal",
+      description: "OAuth 2.0 refresh token for token renewal (encrypted)",
+    },
+    refreshTokenKeyId: {
+      type: String,
+      description: "Encryption key id for refreshToken (unset = plaintext)",
     },
     expiresAt: {
       type: Date,
-      required: true,
-      description: "Token expiration timestamp",
+      description: "Token expiration timestamp (unset for PATs)",
     },
     scope: {
       type: String,
@@ -36,12 +66,67 @@ const OAuthTokenSchema = new Schema<IOAuthToken>(
   }
 );
 
+OAuthTokenSchema.index({ connectionId: 1 }, { unique: true });
 OAuthTokenSchema.index({ updatedAt: -1 });
 
+export interface IOAuthState extends Document {
+  state: string;
+  codeVerifier: string;
+  scopes: string[];
+  returnTo?: string;
+  sessionId: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OAuthStateSchema = new Schema<IOAuthState>(
+  {
+    state: {
+      type: String,
+      required: true,
+      unique: true,
+      description: "Opaque OAuth state parameter sent to Airtable",
+    },
+    codeVerifier: {
+      type: String,
+      required: true,
+      description: "PKCE code verifier matching the challenge sent",
+    },
+    scopes: {
+      type: [String],
+      default: [],
+      description: "Scopes requested in the authorization URL",
+    },
+    returnTo: {
+      type: String,
+      description: "Frontend URL to redirect to after the callback",
+    },
+    sessionId: {
+      type: String,
+      required: true,
+      description: "express-session id of the browser that started the flow",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+      description: "When this pending authorization expires (TTL)",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+OAuthStateSchema.index({ state: 1 }, { unique: true });
+OAuthStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
 export interface IBase extends Document {
   baseId: string;
   name: string;
   permissionLevel: string;
+  connectionId: string;
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -63,6 +148,16 @@ const BaseSchema = new Schema<IBase>(
       type: String,
       description: "User's permission level (owner, editor, viewer)",
     },
+    connectionId: {
+      type: String,
+      index: true,
+      description: "Connection (Airtable user id) that last synced this base",
+    },
+    deletedAt: {
+      type: Date,
+      description:
+        "Set when the base was no longer found in Airtable (tombstone)",
+    },
   },
   {
     timestamps: true,
@@ -80,6 +175,8 @@ export interface ITable extends Document {
   primaryFieldId?: string;
   fields: any[];
   views: any[];
+  connectionId: string;
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -112,6 +209,16 @@ const TableSchema = new Schema<ITable>(
     },
     fields: [{ type: Schema.Types.Mixed }],
     views: [{ type: Schema.Types.Mixed }],
+    connectionId: {
+      type: String,
+      index: true,
+      description: "Connection (Airtable user id) that last synced this table",
+    },
+    deletedAt: {
+      type: Date,
+      description:
+        "Set when the table was no longer found in Airtable (tombstone)",
+    },
   },
   {
     timestamps: true,
@@ -126,8 +233,13 @@ export interface IPage extends Document {
   pageId: string;
   baseId: string;
   tableId: string;
+  tableName?: string;
   fields: any;
+  fieldKeys?: "id" | "name";
+  normalizedFields?: Record<string, any>;
   createdTime: Date;
+  connectionId: string;
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -148,16 +260,41 @@ const PageSchema = new Schema<IPage>(
     tableId: {
       type: String,
       required: true,
-      description: "Parent table identifier",
+      description: "Parent table identifier (tblXXXXXXXXXXXXXX)",
+    },
+    tableName: {
+      type: String,
+      description: "Current name of the parent table",
     },
     fields: {
       type: Schema.Types.Mixed,
-      description: "Record field values (key-value pairs)",
+      description: "Record field values keyed by field id (fldXXXXXXXXXXXXXX)",
+    },
+    fieldKeys: {
+      type: String,
+      enum: ["id", "name"],
+      description:
+        "How `fields` is keyed; records synced before field ids were used have no value (name)",
+    },
+    normalizedFields: {
+      type: Schema.Types.Mixed,
+      description:
+        "Typed field values keyed by field id (Dates, rounded numbers, choice/collaborator objects) for range queries and sorting",
     },
     createdTime: {
       type: Date,
       description: "When record was created in Airtable",
     },
+    connectionId: {
+      type: String,
+      index: true,
+      description: "Connection (Airtable user id) that last synced this record",
+    },
+    deletedAt: {
+      type: Date,
+      description:
+        "Set when the record was no longer found in Airtable (tombstone)",
+    },
   },
   {
     timestamps: true,
@@ -167,6 +304,8 @@ const PageSchema = new Schema<IPage>(
 PageSchema.index({ baseId: 1, tableId: 1, pageId: 1 }, { unique: true });
 
 PageSchema.index({ updatedAt: -1 });
+PageSchema.index({ deletedAt: 1 }, { sparse: true });
+PageSchema.index({ "normalizedFields.$**": 1 });
 
 export interface IRevisionHistoryItem {
   uuid: string;
@@ -269,6 +408,7 @@ RevisionHistorySchema.index({ updatedAt: -1 });
 
 export interface ICookieStore extends Document {
   cookies: string;
+  cookiesKeyId?: string;
   isValid: boolean;
   lastValidated: Date;
   mfaRequired: boolean;
@@ -281,7 +421,12 @@ const CookieStoreSchema = new Schema<ICookieStore>(
     cookies: {
       type: String,
       required: true,
-      description: "Semicolon-separated cookie string from Puppeteer",
+      description:
+        "Semicolon-separated cookie string from Puppeteer (encrypted)",
+    },
+    cookiesKeyId: {
+      type: String,
+      description: "Encryption key id for cookies (unset = plaintext)",
     },
     isValid: {
       type: Boolean,
@@ -317,6 +462,7 @@ export interface IUser extends Document {
   sources?: string[];
   baseId?: string;
   permissionLevel?: string;
+  connectionId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -370,6 +516,11 @@ const UserSchema = new Schema<IUser>(
       type: String,
       description: "Permission level (owner, create, edit, comment, read)",
     },
+    connectionId: {
+      type: String,
+      index: true,
+      description: "Connection (Airtable user id) that last synced this user",
+    },
   },
   {
     timestamps: true,
@@ -383,28 +534,1027 @@ UserSchema.index({ email: 1 });
 UserSchema.index({ baseId: 1, userId: 1 }); // Compound index for base-specific user queries
 UserSchema.index({ updatedAt: -1 });
 
-export const OAuthToken = mongoose.model<IOAuthToken>(
-  "OAuthToken",
-  OAuthTokenSchema
+export type ApiRole = "admin" | "operator" | "viewer";
+
+export interface IApiKey extends Document {
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  role: ApiRole;
+  airtableUserId?: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: true,
+      description: "Human-readable label for the service client",
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      description:
+        "SHA-256 hash of the API key (the key itself is never stored)",
+    },
+    keyPrefix: {
+      type: String,
+      required: true,
+      description: "First characters of the key, for identifying it in lists",
+    },
+    role: {
+      type: String,
+      required: true,
+      enum: ["admin", "operator", "viewer"],
+      description: "Role granted to requests authenticated with this key",
+    },
+    airtableUserId: {
+      type: String,
+      description: "Airtable identity whose base access this key is limited to",
+    },
+    lastUsedAt: {
+      type: Date,
+      description: "Last time a request used this key",
+    },
+    revokedAt: {
+      type: Date,
+      description: "When the key was revoked (unset = active)",
+    },
+  },
+  {
+    timestamps: true,
+  }
 );
 
-export const Base = mongoose.model<IBase>("Base", BaseSchema);
+ApiKeySchema.index({ keyHash: 1 }, { unique: true });
 
-export const Table = mongoose.model<ITable>("Table", TableSchema);
+export interface IUserRole extends Document {
+  airtableUserId: string;
+  role: ApiRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
 
-export const Page = mongoose.model<IPage>("Page", PageSchema);
+const UserRoleSchema = new Schema<IUserRole>(
+  {
+    airtableUserId: {
+      type: String,
+      required: true,
+      unique: true,
+      description: "Airtable user id of a browser (session) user",
+    },
+    role: {
+      type: String,
+      required: true,
+      enum: ["admin", "operator", "viewer"],
+      description: "Role granted to this user's browser sessions",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
 
-export const RevisionHistory = mongoose.model<IRevisionHistory>(
-  "RevisionHistory",
-  RevisionHistorySchema
+UserRoleSchema.index({ airtableUserId: 1 }, { unique: true });
+
+export interface IBaseMembership extends Document {
+  baseId: string;
+  userId: string;
+  permissionLevel: string;
+  source: "meta_bases" | "base_metadata";
+  connectionId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BaseMembershipSchema = new Schema<IBaseMembership>(
+  {
+    baseId: {
+      type: String,
+      required: true,
+      description: "Base the user can see",
+    },
+    userId: {
+      type: String,
+      required: true,
+      description: "Airtable user id (usrXXXXXXXXXXXXXX)",
+    },
+    permissionLevel: {
+      type: String,
+      required: true,
+      description: "Permission level (owner, create, edit, comment, read)",
+    },
+    source: {
+      type: String,
+      required: true,
+      enum: ["meta_bases", "base_metadata"],
+      description:
+        "meta_bases = the connection's own access, base_metadata = collaborator list",
+    },
+    connectionId: {
+      type: String,
+      description: "Connection that observed this membership",
+    },
+  },
+  {
+    timestamps: true,
+  }
 );
 
-export const CookieStore = mongoose.model<ICookieStore>(
-  "CookieStore",
-  CookieStoreSchema
+BaseMembershipSchema.index({ baseId: 1, userId: 1 }, { unique: true });
+BaseMembershipSchema.index({ userId: 1 });
+
+export type AuthEventType =
+  | "authorize"
+  | "callback"
+  | "refresh"
+  | "logout"
+  | "cookie_login"
+  | "pat_register";
+
+export interface IAuthEvent extends Document {
+  type: AuthEventType;
+  outcome: "success" | "failure";
+  reason?: string;
+  connectionId?: string;
+  subject?: string;
+  principalId?: string;
+  ip?: string;
+  userAgent?: string;
+  details?: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AuthEventSchema = new Schema<IAuthEvent>(
+  {
+    type: {
+      type: String,
+      required: true,
+      enum: [
+        "authorize",
+        "callback",
+        "refresh",
+        "logout",
+        "cookie_login",
+        "pat_register",
+      ],
+      description: "Which authentication step this event records",
+    },
+    outcome: {
+      type: String,
+      required: true,
+      enum: ["success", "failure"],
+      description: "Whether the step succeeded",
+    },
+    reason: {
+      type: String,
+      description: "Failure reason or short note (e.g. invalid_state)",
+    },
+    connectionId: {
+      type: String,
+      description: "Connection (Airtable user id) involved, if known",
+    },
+    subject: {
+      type: String,
+      description: "Account the attempt was for (e.g. scraping login email)",
+    },
+    principalId: {
+      type: String,
+      description: "API key id or session user that made the request",
+    },
+    ip: {
+      type: String,
+      description: "Client IP address",
+    },
+    userAgent: {
+      type: String,
+      description: "Client User-Agent header",
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      description: "Extra context (e.g. revocation results)",
+    },
+  },
+  {
+    timestamps: true,
+  }
 );
 
-export const User = mongoose.model<IUser>("User", UserSchema);
+AuthEventSchema.index({ createdAt: -1 });
+AuthEventSchema.index({ type: 1, createdAt: -1 });
+AuthEventSchema.index({ connectionId: 1, createdAt: -1 });
+
+export interface ISyncWatermark extends Document {
+  baseId: string;
+  tableId: string;
+  connectionId?: string;
+  watermark: Date;
+  lastFullSyncAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SyncWatermarkSchema = new Schema<ISyncWatermark>(
+  {
+    baseId: {
+      type: String,
+      required: true,
+      description: "Airtable base ID",
+    },
+    tableId: {
+      type: String,
+      required: true,
+      description: "Table the watermark belongs to",
+    },
+    connectionId: {
+      type: String,
+      description: "Connection that ran the last successful sync",
+    },
+    watermark: {
+      type: Date,
+      required: true,
+      description:
+        "Start time of the last successful sync; later syncs fetch records modified after it",
+    },
+    lastFullSyncAt: {
+      type: Date,
+      description: "When the table was last synced in full",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SyncWatermarkSchema.index({ baseId: 1, tableId: 1 }, { unique: true });
+
+export interface IWebhook extends Document {
+  webhookId: string;
+  baseId: string;
+  connectionId: string;
+  macSecret: string;
+  macSecretKeyId?: string;
+  notificationUrl?: string;
+  specification?: any;
+  cursor: number;
+  expirationTime?: Date;
+  lastNotificationAt?: Date;
+  lastProcessedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookSchema = new Schema<IWebhook>(
+  {
+    webhookId: {
+      type: String,
+      required: true,
+      unique: true,
+      description: "Airtable webhook identifier (achXXXXXXXXXXXXXX)",
+    },
+    baseId: {
+      type: String,
+      required: true,
+      description: "Base the webhook watches",
+    },
+    connectionId: {
+      type: String,
+      required: true,
+      description:
+        "Connection used to create the webhook and pull its payloads",
+    },
+    macSecret: {
+      type: String,
+      required: true,
+      description: "Base64 MAC secret for verifying notifications (encrypted)",
+    },
+    macSecretKeyId: {
+      type: String,
+      description: "Encryption key id for macSecret",
+    },
+    notificationUrl: {
+      type: String,
+      description: "URL Airtable pings when new payloads are available",
+    },
+    specification: {
+      type: Schema.Types.Mixed,
+      description: "Webhook specification sent to Airtable",
+    },
+    cursor: {
+      type: Number,
+      default: 1,
+      description: "Next payload cursor to request",
+    },
+    expirationTime: {
+      type: Date,
+      description: "When Airtable disables the webhook unless refreshed",
+    },
+    lastNotificationAt: {
+      type: Date,
+      description: "Last verified notification ping",
+    },
+    lastProcessedAt: {
+      type: Date,
+      description: "Last time payloads were pulled and applied",
+    },
+    lastError: {
+      type: String,
+      description: "Error from the last payload processing attempt",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+WebhookSchema.index({ baseId: 1 });
+
+export interface IRecordComment extends Document {
+  commentId: string;
+  baseId: string;
+  tableId: string;
+  pageId: string;
+  author?: { id: string; email?: string; name?: string };
+  text: string;
+  mentions: any[];
+  parentCommentId?: string;
+  createdTime: Date;
+  lastUpdatedTime?: Date;
+  connectionId?: string;
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RecordCommentSchema = new Schema<IRecordComment>(
+  {
+    commentId: {
+      type: String,
+      required: true,
+      unique: true,
+      description: "Airtable comment identifier (comXXXXXXXXXXXXXX)",
+    },
+    baseId: {
+      type: String,
+      required: true,
+      description: "Base of the commented record",
+    },
+    tableId: {
+      type: String,
+      required: true,
+      description: "Table of the commented record",
+    },
+    pageId: {
+      type: String,
+      required: true,
+      description: "Commented record (recXXXXXXXXXXXXXX)",
+    },
+    author: {
+      id: { type: String, description: "Author's Airtable user id" },
+      email: { type: String, description: "Author's email" },
+      name: { type: String, description: "Author's display name" },
+    },
+    text: {
+      type: String,
+      description: "Comment text; mentions appear as @[usrXXX] tokens",
+    },
+    mentions: [
+      {
+        type: Schema.Types.Mixed,
+        description: "Users/groups mentioned (id, type, displayName, email)",
+      },
+    ],
+    parentCommentId: {
+      type: String,
+      description: "Comment this one replies to, for threads",
+    },
+    createdTime: {
+      type: Date,
+      required: true,
+      description: "When the comment was posted",
+    },
+    lastUpdatedTime: {
+      type: Date,
+      description: "When the comment was last edited, if ever",
+    },
+    connectionId: {
+      type: String,
+      description:
+        "Connection (Airtable user id) that last synced this comment",
+    },
+    deletedAt: {
+      type: Date,
+      description:
+        "Set when the comment was no longer found in Airtable (tombstone)",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+RecordCommentSchema.index({
+  baseId: 1,
+  tableId: 1,
+  pageId: 1,
+  createdTime: -1,
+});
+RecordCommentSchema.index({ parentCommentId: 1 }, { sparse: true });
+
+export interface IAttachment extends Document {
+  attachmentId: string;
+  variant: "original" | "small" | "large" | "full";
+  hash: string;
+  filename?: string;
+  contentType?: string;
+  size: number;
+  baseId: string;
+  tableId: string;
+  pageId: string;
+  fieldId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AttachmentSchema = new Schema<IAttachment>(
+  {
+    attachmentId: {
+      type: String,
+      required: true,
+      description: "Airtable attachment identifier (attXXXXXXXXXXXXXX)",
+    },
+    variant: {
+      type: String,
+      required: true,
+      enum: ["original", "small", "large", "full"],
+      description: "The uploaded file or one of its thumbnails",
+    },
+    hash: {
+      type: String,
+      required: true,
+      description: "SHA-256 of the content; names the mirrored file",
+    },
+    filename: {
+      type: String,
+      description: "Original file name",
+    },
+    contentType: {
+      type: String,
+      description: "MIME type served with the file",
+    },
+    size: {
+      type: Number,
+      description: "Size in bytes",
+    },
+    baseId: {
+      type: String,
+      required: true,
+      description: "Base of the record the attachment belongs to",
+    },
+    tableId: {
+      type: String,
+      required: true,
+      description: "Table of the record",
+    },
+    pageId: {
+      type: String,
+      required: true,
+      description: "Record the attachment belongs to",
+    },
+    fieldId: {
+      type: String,
+      required: true,
+      description: "Attachment field holding it",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+AttachmentSchema.index({ attachmentId: 1, variant: 1 }, { unique: true });
+AttachmentSchema.index({ hash: 1 });
+
+export interface IRecordLink extends Document {
+  baseId: string;
+  fromTableId: string;
+  fromPageId: string;
+  fieldId: string;
+  toTableId: string;
+  toPageId: string;
+  connectionId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RecordLinkSchema = new Schema<IRecordLink>(
+  {
+    baseId: {
+      type: String,
+      required: true,
+      description: "Base both records belong to (links never cross bases)",
+    },
+    fromTableId: {
+      type: String,
+      required: true,
+      description: "Table of the record holding the link field",
+    },
+    fromPageId: {
+      type: String,
+      required: true,
+      description: "Record holding the link field",
+    },
+    fieldId: {
+      type: String,
+      required: true,
+      description: "multipleRecordLinks field the link comes from",
+    },
+    toTableId: {
+      type: String,
+      required: true,
+      description: "Linked table (the field's linkedTableId)",
+    },
+    toPageId: {
+      type: String,
+      required: true,
+      description: "Linked record",
+    },
+    connectionId: {
+      type: String,
+      required: true,
+      description: "Connection whose sync produced the link",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+RecordLinkSchema.index(
+  { fromPageId: 1, fieldId: 1, toPageId: 1 },
+  { unique: true }
+);
+RecordLinkSchema.index({ toPageId: 1 });
+RecordLinkSchema.index({ baseId: 1, fromTableId: 1 });
+
+export type SyncRunStatus = "running" | "succeeded" | "partial" | "failed";
+
+export interface ISyncError {
+  baseId?: string;
+  tableId?: string;
+  stage: string;
+  message: string;
+  status?: number;
+  code?: string;
+  stack?: string;
+  at: Date;
+}
+
+export interface ISyncTableResult {
+  tableId: string;
+  name?: string;
+  status: "succeeded" | "failed";
+  mode?: "full" | "incremental";
+  records: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+  comments: number;
+  attachments: number;
+  durationMs: number;
+}
+
+export interface ISyncBaseResult {
+  baseId: string;
+  name?: string;
+  status: "succeeded" | "partial" | "failed";
+  tables: ISyncTableResult[];
+  durationMs: number;
+}
+
+export interface ISyncRun extends Document {
+  trigger: "api" | "job";
+  connectionId: string;
+  principalId?: string;
+  jobId?: string;
+  options?: any;
+  status: SyncRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  bases: ISyncBaseResult[];
+  stats?: any;
+  apiCalls: number;
+  retries: number;
+  failures: ISyncError[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SyncErrorSchema = new Schema<ISyncError>(
+  {
+    baseId: {
+      type: String,
+      description: "Base being synced when the error happened",
+    },
+    tableId: {
+      type: String,
+      description: "Table being synced, if any",
+    },
+    stage: {
+      type: String,
+      required: true,
+      description:
+        "What failed: bases, tables, pages, comments, attachments or users",
+    },
+    message: {
+      type: String,
+      required: true,
+      description: "Error message",
+    },
+    status: {
+      type: Number,
+      description: "HTTP status returned by Airtable, if any",
+    },
+    code: {
+      type: String,
+      description: "Error code (Airtable error type or Node error code)",
+    },
+    stack: {
+      type: String,
+      description: "Stack trace for unexpected errors",
+    },
+    at: {
+      type: Date,
+      required: true,
+      description: "When the error happened",
+    },
+  },
+  {
+    _id: false, // Don't create _id for embedded documents
+  }
+);
+
+const SyncTableResultSchema = new Schema<ISyncTableResult>(
+  {
+    tableId: { type: String, required: true, description: "Table id" },
+    name: { type: String, description: "Table name at sync time" },
+    status: {
+      type: String,
+      required: true,
+      enum: ["succeeded", "failed"],
+      description: "Whether the table's records were synced",
+    },
+    mode: {
+      type: String,
+      enum: ["full", "incremental"],
+      description: "Record sync mode used",
+    },
+    records: { type: Number, default: 0, description: "Records read" },
+    created: { type: Number, default: 0, description: "Records created" },
+    updated: { type: Number, default: 0, description: "Records updated" },
+    unchanged: { type: Number, default: 0, description: "Records unchanged" },
+    deleted: { type: Number, default: 0, description: "Records tombstoned" },
+    comments: { type: Number, default: 0, description: "Comments synced" },
+    attachments: {
+      type: Number,
+      default: 0,
+      description: "Attachment files mirrored or reused",
+    },
+    durationMs: { type: Number, description: "Time spent on the table" },
+  },
+  {
+    _id: false, // Don't create _id for embedded documents
+  }
+);
+
+const SyncBaseResultSchema = new Schema<ISyncBaseResult>(
+  {
+    baseId: { type: String, required: true, description: "Base id" },
+    name: { type: String, description: "Base name at sync time" },
+    status: {
+      type: String,
+      required: true,
+      enum: ["succeeded", "partial", "failed"],
+      description:
+        "failed: the base's tables couldn't be listed; partial: some tables failed",
+    },
+    tables: {
+      type: [SyncTableResultSchema],
+      default: [],
+      description: "Per-table results",
+    },
+    durationMs: { type: Number, description: "Time spent on the base" },
+  },
+  {
+    _id: false, // Don't create _id for embedded documents
+  }
+);
+
+const SyncRunSchema = new Schema<ISyncRun>(
+  {
+    trigger: {
+      type: String,
+      required: true,
+      enum: ["api", "job"],
+      description: "What started the run",
+    },
+    connectionId: {
+      type: String,
+      required: true,
+      description: "Connection whose token the run used",
+    },
+    principalId: {
+      type: String,
+      description: "API caller that started the run",
+    },
+    jobId: {
+      type: String,
+      description: "Background job the run belongs to, if any",
+    },
+    options: {
+      type: Schema.Types.Mixed,
+      description: "Sync options (full, comments, attachments, ...)",
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ["running", "succeeded", "partial", "failed"],
+      default: "running",
+      description: "partial: some bases or tables failed",
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      description: "When the run started",
+    },
+    finishedAt: {
+      type: Date,
+      description: "When the run ended",
+    },
+    durationMs: {
+      type: Number,
+      description: "Run duration in milliseconds",
+    },
+    bases: {
+      type: [SyncBaseResultSchema],
+      default: [],
+      description: "Per-base results, appended as each base finishes",
+    },
+    stats: {
+      type: Schema.Types.Mixed,
+      description: "Totals, as returned by the sync endpoint",
+    },
+    apiCalls: {
+      type: Number,
+      default: 0,
+      description: "Requests sent to Airtable",
+    },
+    retries: {
+      type: Number,
+      default: 0,
+      description: "Requests that were retried",
+    },
+    // "errors" is reserved by Mongoose documents
+    failures: {
+      type: [SyncErrorSchema],
+      default: [],
+      description: "Errors with their stage, status and stack",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SyncRunSchema.index({ startedAt: -1 });
+SyncRunSchema.index({ connectionId: 1, startedAt: -1 });
+SyncRunSchema.index({ "bases.baseId": 1, startedAt: -1 });
+SyncRunSchema.index({ jobId: 1, status: 1 }, { sparse: true });
+
+export interface IRateLimitWindow extends Document {
+  key: string;
+  window: number;
+  count: number;
+  expiresAt: Date;
+}
+
+const RateLimitWindowSchema = new Schema<IRateLimitWindow>({
+  key: {
+    type: String,
+    required: true,
+    description: "Limited resource: base:<baseId> or token:<connectionId>",
+  },
+  window: {
+    type: Number,
+    required: true,
+    description: "Epoch second the count applies to",
+  },
+  count: {
+    type: Number,
+    default: 0,
+    description: "Requests started in that second across all instances",
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    description: "TTL - windows are only needed for a few seconds",
+  },
+});
+
+RateLimitWindowSchema.index({ key: 1, window: 1 }, { unique: true });
+RateLimitWindowSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface IJob extends Document {
+  type: string;
+  key: string;
+  params?: any;
+  connectionId?: string;
+  principalId?: string;
+  status: JobStatus;
+  progress?: any;
+  result?: any;
+  error?: string;
+  attempts: number;
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  heartbeatAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: true,
+      description: "Handler that runs the job (revision-fetch, sync-all, ...)",
+    },
+    key: {
+      type: String,
+      required: true,
+      description: "Scope of the job; one active job per type and key",
+    },
+    params: {
+      type: Schema.Types.Mixed,
+      description: "Input the handler needs to run (or resume) the job",
+    },
+    connectionId: {
+      type: String,
+      description: "Connection whose token the job uses, if any",
+    },
+    principalId: {
+      type: String,
+      description: "API caller that queued the job",
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ["queued", "running", "completed", "failed"],
+      default: "queued",
+      description: "Lifecycle state",
+    },
+    progress: {
+      type: Schema.Types.Mixed,
+      description: "Latest progress, including what a resumed run skips",
+    },
+    result: {
+      type: Schema.Types.Mixed,
+      description: "What the handler returned",
+    },
+    error: {
+      type: String,
+      description: "Why the job failed",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      description: "Times a worker claimed the job",
+    },
+    leaseOwner: {
+      type: String,
+      description: "Worker holding the job",
+    },
+    leaseExpiresAt: {
+      type: Date,
+      description: "Lease end; a running job past it is stale and reclaimable",
+    },
+    heartbeatAt: {
+      type: Date,
+      description: "Last sign of life from the worker",
+    },
+    startedAt: {
+      type: Date,
+      description: "When a worker first claimed the job",
+    },
+    finishedAt: {
+      type: Date,
+      description: "When the job completed or failed",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+JobSchema.index({ status: 1, leaseExpiresAt: 1 });
+JobSchema.index({ type: 1, key: 1, status: 1 });
+// At most one queued or running job per type and key, even when two
+// requests queue it at once
+JobSchema.index(
+  { type: 1, key: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: { $in: ["queued", "running"] } },
+  }
+);
+JobSchema.index({ createdAt: -1 });
+JobSchema.index({ principalId: 1, createdAt: -1 });
+
+export const OAuthToken = mongoose.model<IOAuthToken>(
+  "OAuthToken",
+  OAuthTokenSchema
+);
+
+export const OAuthState = mongoose.model<IOAuthState>(
+  "OAuthState",
+  OAuthStateSchema
+);
+
+export const Base = mongoose.model<IBase>("Base", BaseSchema);
+
+export const Table = mongoose.model<ITable>("Table", TableSchema);
+
+export const Page = mongoose.model<IPage>("Page", PageSchema);
+
+export const RevisionHistory = mongoose.model<IRevisionHistory>(
+  "RevisionHistory",
+  RevisionHistorySchema
+);
+
+export const CookieStore = mongoose.model<ICookieStore>(
+  "CookieStore",
+  CookieStoreSchema
+);
+
+export const User = mongoose.model<IUser>("User", UserSchema);
+
+export const ApiKey = mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
+
+export const UserRole = mongoose.model<IUserRole>("UserRole", UserRoleSchema);
+
+export const BaseMembership = mongoose.model<IBaseMembership>(
+  "BaseMembership",
+  BaseMembershipSchema
+);
+
+export const AuthEvent = mongoose.model<IAuthEvent>(
+  "AuthEvent",
+  AuthEventSchema
+);
+
+export const SyncWatermark = mongoose.model<ISyncWatermark>(
+  "SyncWatermark",
+  SyncWatermarkSchema
+);
+
+export const Webhook = mongoose.model<IWebhook>("Webhook", WebhookSchema);
+
+export const RecordComment = mongoose.model<IRecordComment>(
+  "RecordComment",
+  RecordCommentSchema
+);
+
+export const Attachment = mongoose.model<IAttachment>(
+  "Attachment",
+  AttachmentSchema
+);
+
+export const RecordLink = mongoose.model<IRecordLink>(
+  "RecordLink",
+  RecordLinkSchema
+);
+
+export const SyncRun = mongoose.model<ISyncRun>("SyncRun", SyncRunSchema);
+
+export const RateLimitWindow = mongoose.model<IRateLimitWindow>(
+  "RateLimitWindow",
+  RateLimitWindowSchema
+);
+
+export const Job = mongoose.model<IJob>("Job", JobSchema);
 
 export async function getModelStats() {
   const [bases, tables, pages, revisions, tokens, cookies, users] =
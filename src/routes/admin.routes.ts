@@ -0,0 +1,132 @@
+import { Router, Request, Response } from "express";
+import { ApiKey, UserRole } from "../models/airtable.model";
+import {
+  generateApiKey,
+  hashApiKey,
+  requireRole,
+} from "../middleware/auth.middleware";
+
+const router = Router();
+
+const ROLES = ["admin", "operator", "viewer"];
+
+router.use(requireRole("admin"));
+
+router.get("/api-keys", async (req: Request, res: Response) => {
+  try {
+    const keys = await ApiKey.find().select("-keyHash").sort({ createdAt: -1 });
+    res.json({ success: true, count: keys.length, apiKeys: keys });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to list API keys", message: error.message });
+  }
+});
+
+router.post("/api-keys", async (req: Request, res: Response) => {
+  try {
+    const { name, role = "viewer", airtableUserId } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ error: "name is required" });
+    }
+    if (!ROLES.includes(role)) {
+      return res
+        .status(400)
+        .json({ error: `role must be one of ${ROLES.join(", ")}` });
+    }
+
+    const key = generateApiKey();
+    const apiKey = await ApiKey.create({
+      name,
+      role,
+      airtableUserId,
+      keyHash: hashApiKey(key),
+      keyPrefix: key.substring(0, 12),
+    });
+
+    console.log(`[ApiKeys] Created key ${apiKey.keyPrefix}... (${role})`);
+
+    res.status(201).json({
+      success: true,
+      id: apiKey.id,
+      name,
+      role,
+      airtableUserId: apiKey.airtableUserId || null,
+      key,
+      message: "Store this key now - it cannot be retrieved again.",
+    });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to create API key", message: error.message });
+  }
+});
+
+router.delete("/api-keys/:id", async (req: Request, res: Response) => {
+  try {
+    const apiKey = await ApiKey.findByIdAndUpdate(req.params.id, {
+      revokedAt: new Date(),
+    });
+
+    if (!apiKey) {
+      return res.status(404).json({ error: "API key not found" });
+    }
+
+    console.log(`[ApiKeys] Revoked key ${apiKey.keyPrefix}...`);
+    res.json({ success: true, id: apiKey.id });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to revoke API key", message: error.message });
+  }
+});
+
+router.get("/roles", async (req: Request, res: Response) => {
+  try {
+    const roles = await UserRole.find().sort({ updatedAt: -1 });
+    res.json({ success: true, count: roles.length, roles });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to list roles", message: error.message });
+  }
+});
+
+router.put("/roles/:airtableUserId", async (req: Request, res: Response) => {
+  try {
+    const { airtableUserId } = req.params;
+    const { role } = req.body;
+
+    if (!ROLES.includes(role)) {
+      return res
+        .status(400)
+        .json({ error: `role must be one of ${ROLES.join(", ")}` });
+    }
+
+    const assigned = await UserRole.findOneAndUpdate(
+      { airtableUserId },
+      { airtableUserId, role },
+      { upsert: true, new: true }
+    );
+
+    res.json({ success: true, role: assigned });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to assign role", message: error.message });
+  }
+});
+
+router.delete("/roles/:airtableUserId", async (req: Request, res: Response) => {
+  try {
+    await UserRole.deleteOne({ airtableUserId: req.params.airtableUserId });
+    res.json({ success: true });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to remove role", message: error.message });
+  }
+});
+
+export default router;
@@ -1,6 +1,21 @@
 import { Router, Request, Response } from "express";
-import axios from "axios";
-import { OAuthToken } from "../models/airtable.model";
+import { OAuthToken, OAuthState } from "../models/airtable.model";
+import {
+  encryptTokenFields,
+  isTokenError,
+  requestToken,
+  revokeTokens,
+  tokenProvider,
+} from "../services/token.service";
+import {
+  fetchIdentity,
+  listConnections,
+  registerPersonalAccessToken,
+  resolveConnectionId,
+} from "../services/connection.service";
+import { listAuthEvents, recordAuthEvent } from "../services/audit.service";
+import { requireRole } from "../middleware/auth.middleware";
+import { canUseConnection } from "../services/access.service";
 import crypto from "crypto";
 import dotenv from "dotenv";
 
@@ -9,17 +24,73 @@ const router = Router();
 
 declare module "express-session" {
   interface SessionData {
-    accessToken?: string;
+    connectionId?: string;
+    oauthPending?: boolean;
   }
 }
 
+// /authorize and /callback stay public: they are how a browser signs in.
+// Registering a PAT stores a credential for everyone, so it is admin-only
+router.get(["/status", "/connections"], requireRole("viewer"));
+router.post(["/refresh", "/logout"], requireRole("operator"));
+router.post("/pat", requireRole("admin"));
+router.get("/events", requireRole("admin"));
+
 const AIRTABLE_CLIENT_ID = process.env.AIRTABLE_CLIENT_ID || "";
-const AIRTABLE_CLIENT_SECRET = process.env.AIRTABLE_CLIENT_SECRET || "";
 const REDIRECT_URI =
   process.env.REDIRECT_URI || "http://localhost:3000/api/auth/callback";
 const FRONTEND_URL = process.env.FRONTEND_URL || "http://localhost:4200";
 
-const codeVerifierStore = new Map<string, string>();
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+const DEFAULT_SCOPES = [
+  "data.records:read",
+  "data.records:write",
+  "data.recordComments:read",
+  "schema.bases:read",
+  "user.email:read",
+  "webhook:manage",
+];
+
+/**
+ * Only allow returning to the configured frontend so the callback can't be
+ * turned into an open redirect.
+ */
+function sanitizeReturnTo(returnTo: unknown): string {
+  const fallback = `${FRONTEND_URL}/authentication`;
+
+  if (typeof returnTo !== "string" || !returnTo) return fallback;
+
+  try {
+    const url = new URL(returnTo, FRONTEND_URL);
+    return url.origin === new URL(FRONTEND_URL).origin
+      ? url.toString()
+      : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * The connection a refresh, logout or status call acts on. Non-admins may
+ * only name their own, as for data routes. Sends the 400/403 itself and
+ * returns null.
+ */
+function connectionForCaller(req: Request, res: Response): string | null {
+  const connectionId = resolveConnectionId(req);
+
+  if (!connectionId) {
+    res.status(400).json({ error: "connectionId is required" });
+    return null;
+  }
+
+  if (!canUseConnection(req.principal, connectionId)) {
+    res.status(403).json({ error: "Not allowed to use this connection" });
+    return null;
+  }
+
+  return connectionId;
+}
 
 function generatePKCE(): { verifier: string; challenge: string } {
   const verifier = crypto.randomBytes(32).toString("base64url");
@@ -31,15 +102,27 @@ function generatePKCE(): { verifier: string; challenge: string } {
   return { verifier, challenge };
 }
 
-router.get("/authorize", (req: Request, res: Response) => {
+router.get("/authorize", async (req: Request, res: Response) => {
   try {
     console.log("[Authorize] Starting OAuth authorization flow");
 
     const { verifier, challenge } = generatePKCE();
 
     const state = crypto.randomBytes(16).toString("base64url");
+    const returnTo = sanitizeReturnTo(req.query.returnTo);
+
+    // Touch the session so express-session persists it and the callback
+    // arrives with the same session id
+    req.session.oauthPending = true;
 
-    codeVerifierStore.set(state, verifier);
+    await OAuthState.create({
+      state,
+      codeVerifier: verifier,
+      scopes: DEFAULT_SCOPES,
+      returnTo,
+      sessionId: req.sessionID,
+      expiresAt: new Date(Date.now() + STATE_TTL_MS),
+    });
 
     console.log("[Authorize] Generated PKCE parameters");
     console.log(`[Authorize]   State: ${state}`);
@@ -47,13 +130,6 @@ router.get("/authorize", (req: Request, res: Response) => {
       `[Authorize]   Code Challenge: ${challenge.substring(0, 20)}...`
     );
 
-    setTimeout(() => {
-      codeVerifierStore.delete(state);
-      console.log(
-        `[Authorize] Cleaned up expired verifier for state: ${state}`
-      );
-    }, 10 * 60 * 1000);
-
     const authUrl = new URL("https://airtable.com/oauth2/v1/authorize");
     authUrl.searchParams.set("client_id", AIRTABLE_CLIENT_ID);
     authUrl.searchParams.set("redirect_uri", REDIRECT_URI);
@@ -62,14 +138,11 @@ router.get("/authorize", (req: Request, res: Response) => {
     authUrl.searchParams.set("code_challenge", challenge);
     authUrl.searchParams.set("code_challenge_method", "S256");
 
-    const scopes = [
-      "data.records:read",
-      "data.recordComments:read",
-      "schema.bases:read",
-      "user.email:read",
-    ].join(" ");
+    const scopes = DEFAULT_SCOPES.join(" ");
     authUrl.searchParams.set("scope", scopes);
 
+    await recordAuthEvent({ type: "authorize", outcome: "success" }, req);
+
     console.log("[Authorize] Authorization URL generated");
     console.log(`[Authorize]   Redirect URI: ${REDIRECT_URI}`);
     console.log(`[Authorize]   Scopes: ${scopes}`);
@@ -83,6 +156,10 @@ router.get("/authorize", (req: Request, res: Response) => {
       "[Authorize] Error generating authorization URL:",
       error.message
     );
+    await recordAuthEvent(
+      { type: "authorize", outcome: "failure", reason: error.message },
+      req
+    );
     res.status(500).json({ error: "Failed to generate authorization URL" });
   }
 });
@@ -103,6 +180,10 @@ router.get("/callback", async (req: Request, res: Response) => {
     console.error(
       `[Callback] Error description: ${error_description || "none"}`
     );
+    await recordAuthEvent(
+      { type: "callback", outcome: "failure", reason: String(error) },
+      req
+    );
     return res.redirect(
       `${FRONTEND_URL}/authentication?error=${error}&description=${
         error_description || "oauth_error"
@@ -113,51 +194,59 @@ router.get("/callback", async (req: Request, res: Response) => {
   // Validate required parameters
   if (!code || !state) {
     console.error("[Callback] Missing required OAuth parameters");
+    await recordAuthEvent(
+      { type: "callback", outcome: "failure", reason: "invalid_callback" },
+      req
+    );
     return res.redirect(
       `${FRONTEND_URL}/authentication?error=invalid_callback`
     );
   }
 
-  // Retrieve code verifier
-  const codeVerifier = codeVerifierStore.get(state as string);
-  if (!codeVerifier) {
+  // Retrieve and consume the pending authorization in one step so a state
+  // can only ever be redeemed once
+  const pending = await OAuthState.findOneAndDelete({
+    state: state as string,
+  }).catch((err) => {
+    console.error("[Callback] Failed to load OAuth state:", err.message);
+    return null;
+  });
+
+  if (!pending || pending.expiresAt < new Date()) {
     console.error("[Callback] Invalid or expired state parameter");
+    await recordAuthEvent(
+      { type: "callback", outcome: "failure", reason: "invalid_state" },
+      req
+    );
     return res.redirect(`${FRONTEND_URL}/authentication?error=invalid_state`);
   }
 
-  // Clean up used verifier
-  codeVerifierStore.delete(state as string);
+  if (pending.sessionId !== req.sessionID) {
+    console.error("[Callback] State was issued to a different session");
+    await recordAuthEvent(
+      { type: "callback", outcome: "failure", reason: "session_mismatch" },
+      req
+    );
+    return res.redirect(`${FRONTEND_URL}/authentication?error=invalid_state`);
+  }
+
+  const codeVerifier = pending.codeVerifier;
   console.log("[Callback] State validated and verifier retrieved");
 
   try {
     console.log("[Callback] Exchanging authorization code for access token...");
 
     // Exchange code for token with PKCE
-    const tokenResponse = await axios.post(
-      "https://airtable.com/oauth2/v1/token",
-      new URLSearchParams({
-        grant_type: "authorization_code",
-        code: code as string,
-        redirect_uri: REDIRECT_URI,
-        client_id: AIRTABLE_CLIENT_ID,
-        code_verifier: codeVerifier,
-      }).toString(),
-      {
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          ...(AIRTABLE_CLIENT_SECRET && {
-            Authorization: `Basic ${Buffer.from(
-              `${AIRTABLE_CLIENT_ID}:${AIRTABLE_CLIENT_SECRET}`
-            ).toString("base64")}`,
-          }),
-        },
-      }
-    );
+    const tokenResponse = await requestToken({
+      grant_type: "authorization_code",
+      code: code as string,
+      redirect_uri: REDIRECT_URI,
+      code_verifier: codeVerifier,
+    });
 
     console.log("[Callback] Token exchange successful");
 
-    const { access_token, refresh_token, expires_in, scope } =
-      tokenResponse.data;
+    const { access_token, refresh_token, expires_in, scope } = tokenResponse;
 
     // Calculate expiration
     const expiresAt = new Date(Date.now() + expires_in * 1000);
@@ -167,17 +256,21 @@ router.get("/callback", async (req: Request, res: Response) => {
     console.log(`[Callback]   Expires at: ${expiresAt.toISOString()}`);
     console.log(`[Callback]   Scopes: ${scope || "default"}`);
 
+    // Identify the Airtable account so each one gets its own connection
+    const identity = await fetchIdentity(access_token);
+    console.log(`[Callback]   Connection: ${identity.id}`);
+
     // Save to database
     console.log("[Callback] Saving token to database...");
     await OAuthToken.findOneAndUpdate(
-      {},
+      { connectionId: identity.id },
       {
-        accessToken: access_token,
-        refreshToken: refresh_token || "",
+        connectionId: identity.id,
+        email: identity.email,
+        credentialType: "oauth",
+        ...encryptTokenFields(access_token, refresh_token || ""),
         expiresAt,
-        scope:
-          scope ||
-          "data.records:read data.recordComments:read schema.bases:read",
+        scope: scope || pending.scopes.join(" "),
         updatedAt: new Date(),
       },
       { upsert: true, new: true }
@@ -185,19 +278,46 @@ router.get("/callback", async (req: Request, res: Response) => {
 
     console.log("[Callback] Token saved to database");
 
+    await recordAuthEvent(
+      {
+        type: "callback",
+        outcome: "success",
+        connectionId: identity.id,
+        subject: identity.email,
+      },
+      req
+    );
+
     // Store in session
     if (req.session) {
-      req.session.accessToken = access_token;
-      console.log("[Callback] Token saved to session");
+      req.session.connectionId = identity.id;
+      delete req.session.oauthPending;
+      console.log("[Callback] Connection saved to session");
     }
 
+    const redirectUrl = new URL(
+      pending.returnTo || `${FRONTEND_URL}/authentication`
+    );
+    redirectUrl.searchParams.set("success", "true");
+    redirectUrl.searchParams.set("connectionId", identity.id);
+
     console.log("[Callback] Redirecting to frontend...");
-    res.redirect(`${FRONTEND_URL}/authentication?success=true`);
+    res.redirect(redirectUrl.toString());
   } catch (error: any) {
     console.error("[Callback] Token exchange failed");
     console.error(`[Callback] Error: ${error.response?.data || error.message}`);
     console.error(`[Callback] Status: ${error.response?.status || "unknown"}`);
 
+    await recordAuthEvent(
+      {
+        type: "callback",
+        outcome: "failure",
+        reason: "token_exchange_failed",
+        details: { error: error.response?.data?.error || error.message },
+      },
+      req
+    );
+
     res.redirect(
       `${FRONTEND_URL}/authentication?error=token_exchange_failed&details=${encodeURIComponent(
         error.response?.data?.error || error.message
@@ -210,86 +330,166 @@ router.post("/refresh", async (req: Request, res: Response) => {
   try {
     console.log("[Refresh] Starting token refresh...");
 
-    const token = await OAuthToken.findOne().sort({ updatedAt: -1 });
+    const connectionId = connectionForCaller(req, res);
+    if (!connectionId) return;
+
+    const token = await OAuthToken.findOne({ connectionId });
+
+    if (token?.credentialType === "pat") {
+      return res
+        .status(400)
+        .json({ error: "Personal access tokens cannot be refreshed" });
+    }
 
     if (!token || !token.refreshToken) {
       console.error("[Refresh] No refresh token available");
+      await recordAuthEvent(
+        {
+          type: "refresh",
+          outcome: "failure",
+          reason: "no_refresh_token",
+          connectionId,
+        },
+        req
+      );
       return res.status(401).json({ error: "No refresh token available" });
     }
 
     console.log("[Refresh] Requesting new access token from Airtable...");
 
-    const tokenResponse = await axios.post(
-      "https://airtable.com/oauth2/v1/token",
-      new URLSearchParams({
-        grant_type: "refresh_token",
-        refresh_token: token.refreshToken,
-        client_id: AIRTABLE_CLIENT_ID,
-      }).toString(),
-      {
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          ...(AIRTABLE_CLIENT_SECRET && {
-            Authorization: `Basic ${Buffer.from(
-              `${AIRTABLE_CLIENT_ID}:${AIRTABLE_CLIENT_SECRET}`
-            ).toString("base64")}`,
-          }),
-        },
-      }
+    await tokenProvider.refresh(connectionId);
+    const refreshed = await OAuthToken.findOne({ connectionId }).select(
+      "expiresAt"
     );
 
-    const { access_token, refresh_token, expires_in } = tokenResponse.data;
-    const expiresAt = new Date(Date.now() + expires_in * 1000);
+    console.log("[Refresh] Token updated in database");
+    console.log("[Refresh] Token refresh successful");
 
-    console.log("[Refresh] New token received");
-    console.log(`[Refresh]   Expires in: ${expires_in} seconds`);
-    console.log(`[Refresh]   Expires at: ${expiresAt.toISOString()}`);
+    // The token itself never leaves the server
+    res.json({
+      success: true,
+      connectionId,
+      authenticated: true,
+      expired: false,
+      expiresAt: refreshed?.expiresAt || null,
+    });
+  } catch (error: any) {
+    console.error("[Refresh] Token refresh failed");
+    console.error(`[Refresh] Error: ${error.response?.data || error.message}`);
+    console.error(`[Refresh] Status: ${error.response?.status || "unknown"}`);
+    res
+      .status(isTokenError(error) ? 401 : 500)
+      .json({ error: "Failed to refresh token", message: error.message });
+  }
+});
+
+router.post("/pat", async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token || typeof token !== "string") {
+      return res.status(400).json({ error: "token is required" });
+    }
+
+    console.log("[PAT] Validating personal access token...");
+
+    const identity = await registerPersonalAccessToken(token);
+
+    console.log(`[PAT] Connection registered: ${identity.id}`);
+
+    await recordAuthEvent(
+      {
+        type: "pat_register",
+        outcome: "success",
+        connectionId: identity.id,
+        subject: identity.email,
+      },
+      req
+    );
 
-    await OAuthToken.findByIdAndUpdate(token._id, {
-      accessToken: access_token,
-      refreshToken: refresh_token || token.refreshToken,
-      expiresAt,
-      updatedAt: new Date(),
+    res.json({
+      success: true,
+      connectionId: identity.id,
+      email: identity.email,
+      credentialType: "pat",
+      scopes: identity.scopes || [],
     });
+  } catch (error: any) {
+    console.error("[PAT] Registration failed:", error.message);
 
-    console.log("[Refresh] Token updated in database");
+    await recordAuthEvent(
+      { type: "pat_register", outcome: "failure", reason: error.message },
+      req
+    );
 
-    if (req.session) {
-      req.session.accessToken = access_token;
-      console.log("[Refresh] Token updated in session");
+    if (error.message === "PAT_REJECTED") {
+      return res
+        .status(401)
+        .json({ error: "Airtable rejected the personal access token" });
     }
 
-    console.log("[Refresh] Token refresh successful");
+    res.status(500).json({
+      error: "Failed to register personal access token",
+      message: error.message,
+    });
+  }
+});
 
-    res.json({ success: true, accessToken: access_token });
+router.get("/connections", async (req: Request, res: Response) => {
+  try {
+    // Non-admins only see their own connection
+    const connections = (await listConnections()).filter((c) =>
+      canUseConnection(req.principal, c.connectionId)
+    );
+    res.json({
+      success: true,
+      count: connections.length,
+      activeConnectionId: req.session?.connectionId || null,
+      connections,
+    });
   } catch (error: any) {
-    console.error("[Refresh] Token refresh failed");
-    console.error(`[Refresh] Error: ${error.response?.data || error.message}`);
-    console.error(`[Refresh] Status: ${error.response?.status || "unknown"}`);
-    res.status(500).json({ error: "Failed to refresh token" });
+    console.error("[Connections] Error listing connections:", error.message);
+    res.status(500).json({ error: "Failed to list connections" });
   }
 });
 
 router.get("/status", async (req: Request, res: Response) => {
   try {
-    const token = await OAuthToken.findOne().sort({ updatedAt: -1 });
+    const connectionId = resolveConnectionId(req);
+
+    if (connectionId && !canUseConnection(req.principal, connectionId)) {
+      return res
+        .status(403)
+        .json({ error: "Not allowed to use this connection" });
+    }
+
+    const token = connectionId
+      ? await OAuthToken.findOne({ connectionId })
+      : null;
 
     if (!token || !token.accessToken) {
       console.log("[Status] No authentication token found");
-      return res.json({ authenticated: false });
+      return res.json({ authenticated: false, connectionId });
     }
 
-    const isExpired = new Date() > token.expiresAt;
+    const isExpired = token.expiresAt ? new Date() > token.expiresAt : false;
 
     console.log("[Status] Authentication status checked");
     console.log(`[Status]   Authenticated: true`);
+    console.log(`[Status]   Credential: ${token.credentialType}`);
     console.log(`[Status]   Expired: ${isExpired}`);
-    console.log(`[Status]   Expires at: ${token.expiresAt.toISOString()}`);
+    console.log(
+      `[Status]   Expires at: ${token.expiresAt?.toISOString() || "never"}`
+    );
 
     res.json({
       authenticated: true,
+      connectionId: token.connectionId,
+      email: token.email,
+      credentialType: token.credentialType,
+      scopes: token.scope ? token.scope.split(" ") : [],
       expired: isExpired,
-      expiresAt: token.expiresAt,
+      expiresAt: token.expiresAt || null,
       hasToken: true,
     });
   } catch (error: any) {
@@ -305,10 +505,47 @@ router.post("/logout", async (req: Request, res: Response) => {
   try {
     console.log("[Logout] Logging out user...");
 
-    await OAuthToken.deleteMany({});
-    console.log("[Logout] Tokens deleted from database");
+    const connectionId = connectionForCaller(req, res);
+    if (!connectionId) return;
 
-    if (req.session) {
+    const token = await OAuthToken.findOne({ connectionId });
+
+    if (!token) {
+      await recordAuthEvent(
+        {
+          type: "logout",
+          outcome: "failure",
+          reason: "not_found",
+          connectionId,
+        },
+        req
+      );
+      return res.status(404).json({ error: "Connection not found" });
+    }
+
+    // Revoke at Airtable first; the local copy is removed either way so a
+    // failed revocation never leaves the user unable to disconnect
+    const revocation = await revokeTokens(token);
+    console.log(`[Logout] Revocation: ${revocation.result}`);
+
+    await OAuthToken.deleteOne({ connectionId });
+    console.log(`[Logout] Connection ${connectionId} deleted from database`);
+
+    await recordAuthEvent(
+      {
+        type: "logout",
+        outcome: "success",
+        reason:
+          revocation.result === "revoked"
+            ? undefined
+            : `revocation_${revocation.result}`,
+        connectionId,
+        details: revocation,
+      },
+      req
+    );
+
+    if (req.session && req.session.connectionId === connectionId) {
       req.session.destroy((err) => {
         if (err) {
           console.error("[Logout] Session destroy error:", err);
@@ -319,11 +556,43 @@ router.post("/logout", async (req: Request, res: Response) => {
     }
 
     console.log("[Logout] User logged out successfully");
-    res.json({ success: true });
+    res.json({ success: true, connectionId, revocation: revocation.result });
   } catch (error: any) {
     console.error("[Logout] Logout failed:", error.message);
+    await recordAuthEvent(
+      {
+        type: "logout",
+        outcome: "failure",
+        reason: error.message,
+        connectionId: resolveConnectionId(req),
+      },
+      req
+    );
     res.status(500).json({ error: "Failed to logout" });
   }
 });
 
+router.get("/events", async (req: Request, res: Response) => {
+  try {
+    const { type, outcome, connectionId, since, until } = req.query;
+
+    const result = await listAuthEvents({
+      type: type as string | undefined,
+      outcome: outcome as string | undefined,
+      connectionId: connectionId as string | undefined,
+      since: since as string | undefined,
+      until: until as string | undefined,
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 50,
+    });
+
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error("[Events] Error listing auth events:", error.message);
+    res
+      .status(500)
+      .json({ error: "Failed to list auth events", message: error.message });
+  }
+});
+
 export default router;
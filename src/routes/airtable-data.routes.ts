@@ -1,34 +1,111 @@
 import { Router, Request, Response } from "express";
-import { AirtableService } from "../services/airtable.service";
-import { OAuthToken, Base, Table, Page, User } from "../models/airtable.model";
+import mongoose from "mongoose";
+import {
+  Base,
+  BaseMembership,
+  Table,
+  Page,
+  RecordComment,
+  User,
+} from "../models/airtable.model";
+import { RecordWriteResult } from "../services/airtable.service";
+import { getServiceForRequest } from "../services/connection.service";
+import { isTokenError } from "../services/token.service";
+import {
+  requireBasePermission,
+  requireRole,
+} from "../middleware/auth.middleware";
+import {
+  getAccessibleBaseIds,
+  scopeQueryToCaller,
+} from "../services/access.service";
+import { presentFields } from "../services/fields.service";
+import { buildNormalizedQuery } from "../services/normalize.service";
+import { findMirroredFile } from "../services/attachment.service";
+import {
+  expandRecordLinks,
+  getRecordLinks,
+  LinkDirection,
+  MAX_EXPAND_DEPTH,
+} from "../services/links.service";
+import { getSyncRun, listSyncRuns } from "../services/sync-run.service";
+import { getRateLimitStats } from "../services/rate-limit.service";
+import {
+  startSyncJob,
+  SyncJobParams,
+  SyncJobType,
+} from "../services/sync-job.service";
+import { describeJob } from "../services/job.service";
+import {
+  excludeTombstones,
+  NOT_DELETED,
+  purgeTombstones,
+} from "../services/tombstone.service";
 
 const router = Router();
 
-async function getAccessToken(): Promise<string | null> {
-  const token = await OAuthToken.findOne().sort({ updatedAt: -1 });
+// Reads need any authenticated caller; anything that pulls from Airtable
+// and writes the mirror (every POST, plus /whoami which upserts users) or
+// writes records back to Airtable needs operator
+router.use(requireRole("viewer"));
+router.post("*", requireRole("operator"));
+router.get("/whoami/:baseId", requireRole("operator"));
+router.get("/rate-limits", requireRole("operator"));
+router.delete("/tombstones", requireRole("admin"));
+router.patch("/records/*", requireRole("operator"));
+router.delete("/records/*", requireRole("operator"));
+
+// Base-scoped syncs and record writes also need edit access to that base
+// in Airtable, so comment-only and read-only collaborators can't use them
+router.post(
+  [
+    "/fetch-tables/:baseId",
+    "/fetch-base/:baseId",
+    "/fetch-pages/:baseId/:tableId",
+  ],
+  requireBasePermission("edit")
+);
+router.get("/whoami/:baseId", requireBasePermission("edit"));
+router.all("/records/:baseId/:tableId", requireBasePermission("edit"));
 
-  if (!token || !token.accessToken) {
-    return null;
-  }
+// Record syncs are incremental unless the caller asks for full=true
+function isFullSync(req: Request): boolean {
+  return String(req.query.full ?? req.body?.full) === "true";
+}
 
-  if (new Date() > token.expiresAt) {
-    return null;
-  }
+// Link reads follow links out of the record unless asked otherwise
+function linkDirection(req: Request, fallback: LinkDirection) {
+  const direction = String(req.query.direction ?? fallback);
+  return ["outgoing", "incoming", "both"].includes(direction)
+    ? (direction as LinkDirection)
+    : null;
+}
+
+// Optional overrides of SYNC_BASE_CONCURRENCY / SYNC_TABLE_CONCURRENCY
+function syncConcurrency(req: Request) {
+  const bases = parseInt(
+    req.query.baseConcurrency ?? req.body?.baseConcurrency
+  );
+  const tables = parseInt(
+    req.query.tableConcurrency ?? req.body?.tableConcurrency
+  );
+
+  return {
+    ...(bases > 0 && { bases }),
+    ...(tables > 0 && { tablesPerBase: tables }),
+  };
+}
 
-  return token.accessToken;
+// Reads hide records/tables/bases deleted in Airtable unless asked not to
+function includeDeleted(req: Request): boolean {
+  return req.query.includeDeleted === "true";
 }
 
 router.post("/fetch-bases", async (req: Request, res: Response) => {
   try {
-    const accessToken = await getAccessToken();
+    const service = await getServiceForRequest(req, res);
+    if (!service) return;
 
-    if (!accessToken) {
-      return res
-        .status(401)
-        .json({ error: "Not authenticated or token expired" });
-    }
-
-    const service = new AirtableService(accessToken);
     const bases = await service.fetchBases(); // Returns Array<Base>
 
     res.json({
@@ -38,6 +115,12 @@ router.post("/fetch-bases", async (req: Request, res: Response) => {
       message: `Successfully synced ${bases.length} bases to MongoDB.`,
     });
   } catch (error: any) {
+    if (isTokenError(error)) {
+      return res
+        .status(401)
+        .json({ error: "Not authenticated or token expired" });
+    }
+
     console.error("Error fetching bases:", error.message);
     res
       .status(500)
@@ -48,15 +131,9 @@ router.post("/fetch-bases", async (req: Request, res: Response) => {
 router.post("/fetch-tables/:baseId", async (req: Request, res: Response) => {
   try {
     const { baseId } = req.params;
-    const accessToken = await getAccessToken();
-
-    if (!accessToken) {
-      return res
-        .status(401)
-        .json({ error: "Not authenticated or token expired" });
-    }
+    const service = await getServiceForRequest(req, res);
+    if (!service) return;
 
-    const service = new AirtableService(accessToken);
     const tables = await service.fetchTables(baseId); // Returns Array<Table>
 
     res.json({
@@ -66,6 +143,12 @@ router.post("/fetch-tables/:baseId", async (req: Request, res: Response) => {
       message: `Successfully synced ${tables.length} tables for base ${baseId} to MongoDB.`,
     });
   } catch (error: any) {
+    if (isTokenError(error)) {
+      return res
+        .status(401)
+        .json({ error: "Not authenticated or token expired" });
+    }
+
     console.error("Error fetching tables:", error.message);
     res
       .status(500)
@@ -73,77 +156,94 @@ router.post("/fetch-tables/:baseId", async (req: Request, res: Response) => {
   }
 });
 
+// Syncs run as background jobs; the caller polls GET /api/jobs/:jobId
+async function startSync(
+  req: Request,
+  res: Response,
+  type: SyncJobType,
+  params: SyncJobParams
+) {
+  const service = await getServiceForRequest(req, res);
+  if (!service) return;
+
+  const { job, alreadyRunning } = await startSyncJob({
+    type,
+    connectionId: service.connectionId,
+    principalId: req.principal?.id,
+    params: {
+      ...params,
+      full: isFullSync(req),
+      comments: String(req.query.comments ?? req.body?.comments) !== "false",
+      attachments:
+        String(req.query.attachments ?? req.body?.attachments) !== "false",
+      concurrency: syncConcurrency(req),
+    },
+  });
+
+  if (alreadyRunning) {
+    return res.status(409).json({
+      success: false,
+      error: "This sync is already in progress",
+      message: "Please wait for the current job to complete",
+      jobId: String(job._id),
+      currentJob: describeJob(job),
+    });
+  }
+
+  res.status(202).json({
+    success: true,
+    message: "Sync queued",
+    jobId: String(job._id),
+    note: `Check progress at GET /api/jobs/${job._id}`,
+    timestamp: new Date().toISOString(),
+  });
+}
+
 router.post(
   "/fetch-pages/:baseId/:tableId",
   async (req: Request, res: Response) => {
     try {
       const { baseId, tableId } = req.params;
-      const accessToken = await getAccessToken();
-
-      if (!accessToken) {
-        return res
-          .status(401)
-          .json({ error: "Not authenticated or token expired" });
-      }
-
-      const service = new AirtableService(accessToken);
-
-      const recordCount = await service.fetchPages(baseId, tableId);
-
-      res.json({
-        success: true,
-        count: recordCount,
-        message: `Successfully synced ${recordCount} records for table ${tableId} to MongoDB. Data not returned in response to prevent memory issues.`,
-      });
+      await startSync(req, res, "sync-table", { baseId, tableId });
     } catch (error: any) {
-      console.error("Error fetching pages:", error.message);
+      console.error("Error starting table sync:", error.message);
       res
         .status(500)
-        .json({ error: "Failed to fetch pages", message: error.message });
+        .json({ error: "Failed to start table sync", message: error.message });
     }
   }
 );
 
-router.post("/fetch-all-parallel", async (req: Request, res: Response) => {
+router.post("/fetch-base/:baseId", async (req: Request, res: Response) => {
   try {
-    const accessToken = await getAccessToken();
-
-    if (!accessToken) {
-      return res
-        .status(401)
-        .json({ error: "Not authenticated or token expired" });
-    }
-
-    const service = new AirtableService(accessToken);
-
-    const data = await service.fetchAllDataParallel();
+    await startSync(req, res, "sync-base", { baseId: req.params.baseId });
+  } catch (error: any) {
+    console.error("Error starting base sync:", error.message);
+    res
+      .status(500)
+      .json({ error: "Failed to start base sync", message: error.message });
+  }
+});
 
-    res.json({
-      success: true,
-      message: `Full sync complete in ${data.durationSeconds} seconds.`,
-      stats: data.stats,
-      userStats: data.userStats,
+router.post("/fetch-all-parallel", async (req: Request, res: Response) => {
+  try {
+    // Non-admins only sync bases where they could edit in Airtable
+    await startSync(req, res, "sync-all", {
+      minPermissionLevel: req.principal?.role === "admin" ? undefined : "edit",
     });
   } catch (error: any) {
-    console.error("Error fetching all data (parallel):", error.message);
+    console.error("Error starting full sync:", error.message);
     res
       .status(500)
-      .json({ error: "Failed to fetch all data", message: error.message });
+      .json({ error: "Failed to start full sync", message: error.message });
   }
 });
 
 router.get("/whoami/:baseId", async (req: Request, res: Response) => {
   try {
-    const accessToken = await getAccessToken();
     const { baseId } = req.params;
-
-    if (!accessToken) {
-      return res.status(401).json({
-        error: "Not authenticated or token expired",
-      });
-    }
-
-    const service = new AirtableService(accessToken);
+    const service = await getServiceForRequest(req, res);
+    if (!service) return;
 
     const userResult = await service.fetchUsers(baseId);
 
@@ -154,6 +254,12 @@ router.get("/whoami/:baseId", async (req: Request, res: Response) => {
       sources: userResult.sources,
     });
   } catch (error: any) {
+    if (isTokenError(error)) {
+      return res
+        .status(401)
+        .json({ error: "Not authenticated or token expired" });
+    }
+
     console.error("Error fetching current user:", error.message);
     res.status(500).json({
       error: "Failed to fetch current user",
@@ -162,10 +268,174 @@ router.get("/whoami/:baseId", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Responds with a record write result: the success status when everything
+ * was written, 207 when only some batches were, otherwise Airtable's error.
+ */
+function sendWriteResult(
+  res: Response,
+  result: RecordWriteResult,
+  successStatus: number
+) {
+  const status = !result.error
+    ? successStatus
+    : result.records.length
+    ? 207
+    : [403, 404, 422].includes(result.error.status!)
+    ? result.error.status!
+    : 502;
+
+  res.status(status).json({
+    success: !result.error,
+    count: result.records.length,
+    failed: result.failed,
+    records: result.records,
+    ...(result.error && { error: result.error.message }),
+  });
+}
+
+function handleWriteError(error: any, res: Response, action: string) {
+  if (isTokenError(error)) {
+    return res
+      .status(401)
+      .json({ error: "Not authenticated or token expired" });
+  }
+  if (error.message === "TABLE_NOT_FOUND") {
+    return res.status(404).json({ error: "Table not found in base" });
+  }
+
+  console.error(`Error ${action} records:`, error.message);
+  res
+    .status(500)
+    .json({ error: `Failed to ${action} records`, message: error.message });
+}
+
+// Create records: { records: [{ fields }], typecast? }
+router.post(
+  "/records/:baseId/:tableId",
+  async (req: Request, res: Response) => {
+    try {
+      const { baseId, tableId } = req.params;
+      const { records, typecast } = req.body;
+
+      if (!Array.isArray(records) || !records.length) {
+        return res
+          .status(400)
+          .json({ error: "records must be a non-empty array" });
+      }
+
+      const service = await getServiceForRequest(req, res);
+      if (!service) return;
+
+      const result = await service.writeRecords(
+        "POST",
+        baseId,
+        tableId,
+        records.map((r: any) => ({ fields: r.fields || {} })),
+        { typecast }
+      );
+
+      sendWriteResult(res, result, 201);
+    } catch (error: any) {
+      handleWriteError(error, res, "create");
+    }
+  }
+);
+
+// Update records: { records: [{ id, fields, expectedHash?,
+// expectedUpdatedAt? }], typecast?, force? }. Records with an expectation
+// are only written if unchanged in Airtable since; force skips the check
+router.patch(
+  "/records/:baseId/:tableId",
+  async (req: Request, res: Response) => {
+    try {
+      const { baseId, tableId } = req.params;
+      const { records, typecast, force } = req.body;
+
+      if (
+        !Array.isArray(records) ||
+        !records.length ||
+        records.some((r: any) => !r.id)
+      ) {
+        return res.status(400).json({
+          error: "records must be a non-empty array of { id, fields }",
+        });
+      }
+
+      const service = await getServiceForRequest(req, res);
+      if (!service) return;
+
+      if (!force) {
+        const conflicts = await service.findWriteConflicts(
+          baseId,
+          tableId,
+          records
+        );
+
+        if (conflicts.length) {
+          return res.status(409).json({
+            success: false,
+            error: "Records changed in Airtable since they were read",
+            message:
+              "Nothing was written. Re-read the records or retry with force",
+            conflicts,
+          });
+        }
+      }
+
+      const result = await service.writeRecords(
+        "PATCH",
+        baseId,
+        tableId,
+        records.map((r: any) => ({ id: r.id, fields: r.fields || {} })),
+        { typecast }
+      );
+
+      sendWriteResult(res, result, 200);
+    } catch (error: any) {
+      handleWriteError(error, res, "update");
+    }
+  }
+);
+
+// Delete records: ?ids=rec1,rec2 or { ids: [...] }
+router.delete(
+  "/records/:baseId/:tableId",
+  async (req: Request, res: Response) => {
+    try {
+      const { baseId, tableId } = req.params;
+      const ids: string[] = req.query.ids
+        ? String(req.query.ids).split(",").filter(Boolean)
+        : req.body?.ids || [];
+
+      if (!Array.isArray(ids) || !ids.length) {
+        return res.status(400).json({ error: "ids are required" });
+      }
+
+      const service = await getServiceForRequest(req, res);
+      if (!service) return;
+
+      const result = await service.deleteRecords(baseId, tableId, ids);
+
+      sendWriteResult(res, result, 200);
+    } catch (error: any) {
+      handleWriteError(error, res, "delete");
+    }
+  }
+);
+
 // Get stored bases
 router.get("/bases", async (req: Request, res: Response) => {
   try {
-    const bases = await Base.find().sort({ updatedAt: -1 });
+    const { connectionId } = req.query;
+    const query = await scopeQueryToCaller(
+      req.principal,
+      excludeTombstones(
+        connectionId ? { connectionId } : {},
+        includeDeleted(req)
+      )
+    );
+    const bases = await Base.find(query).sort({ updatedAt: -1 });
     res.json({ success: true, count: bases.length, bases });
   } catch (error: any) {
     res
@@ -177,9 +447,18 @@ router.get("/bases", async (req: Request, res: Response) => {
 // Get stored tables
 router.get("/tables", async (req: Request, res: Response) => {
   try {
-    const { baseId } = req.query;
-    const query = baseId ? { baseId } : {};
-    const tables = await Table.find(query).sort({ updatedAt: -1 });
+    const { baseId, connectionId } = req.query;
+    const query: any = {};
+
+    if (baseId) query.baseId = baseId;
+    if (connectionId) query.connectionId = connectionId;
+
+    const tables = await Table.find(
+      await scopeQueryToCaller(
+        req.principal,
+        excludeTombstones(query, includeDeleted(req))
+      )
+    ).sort({ updatedAt: -1 });
     res.json({ success: true, count: tables.length, tables });
   } catch (error: any) {
     res
@@ -191,33 +470,308 @@ router.get("/tables", async (req: Request, res: Response) => {
 // Get stored pages
 router.get("/pages", async (req: Request, res: Response) => {
   try {
-    const { baseId, tableId, limit = 200 } = req.query;
+    const {
+      baseId,
+      tableId,
+      tableName,
+      connectionId,
+      keys = "name",
+      range,
+      sort,
+    } = req.query;
+    const limit = Math.min(
+      200,
+      Math.max(1, parseInt(req.query.limit as string) || 200)
+    );
+    let query: any = {};
+    let order: any = { updatedAt: -1 };
+
+    if (keys !== "id" && keys !== "name") {
+      return res.status(400).json({ error: "keys must be id or name" });
+    }
+
+    // Range filters and sorting on typed values, e.g.
+    // ?range[Due date][gte]=2024-01-01&sort=-Estimate
+    if (range || sort) {
+      if (!tableId) {
+        return res
+          .status(400)
+          .json({ error: "range and sort require a tableId" });
+      }
+      if (range && typeof range !== "object") {
+        return res
+          .status(400)
+          .json({ error: "range must be range[field][gte|lte|gt|lt|eq]" });
+      }
+
+      try {
+        const normalized = await buildNormalizedQuery(
+          String(tableId),
+          range as Record<string, any>,
+          sort ? String(sort) : undefined
+        );
+        query = normalized.filter;
+        if (normalized.sort) order = { ...normalized.sort, pageId: 1 };
+      } catch (err: any) {
+        if (
+          err.message === "UNKNOWN_FIELD" ||
+          err.message === "INVALID_BOUND"
+        ) {
+          return res.status(400).json({ error: err.message });
+        }
+        throw err;
+      }
+    }
+
+    if (baseId) query.baseId = baseId;
+    if (tableId) query.tableId = tableId;
+    if (tableName) query.tableName = tableName;
+    if (connectionId) query.connectionId = connectionId;
+
+    const pages = await Page.find(
+      await scopeQueryToCaller(
+        req.principal,
+        excludeTombstones(query, includeDeleted(req))
+      )
+    )
+      .sort(order)
+      .limit(limit)
+      .lean();
+
+    res.json({
+      success: true,
+      count: pages.length,
+      keys,
+      pages: await presentFields(pages, keys),
+    });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to retrieve pages", message: error.message });
+  }
+});
+
+// Get stored record comments, newest first
+router.get("/comments", async (req: Request, res: Response) => {
+  try {
+    const { baseId, tableId, pageId } = req.query;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(
+      200,
+      Math.max(1, parseInt(req.query.limit as string) || 50)
+    );
     const query: any = {};
 
     if (baseId) query.baseId = baseId;
     if (tableId) query.tableId = tableId;
+    if (pageId) query.pageId = pageId;
+
+    const scoped = await scopeQueryToCaller(
+      req.principal,
+      excludeTombstones(query, includeDeleted(req))
+    );
 
-    const pages = await Page.find(query)
-      .sort({ updatedAt: -1 })
-      .limit(Number(limit));
+    const [total, comments] = await Promise.all([
+      RecordComment.countDocuments(scoped),
+      RecordComment.find(scoped)
+        .sort({ createdTime: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+    ]);
 
-    res.json({ success: true, count: pages.length, pages });
+    res.json({
+      success: true,
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+      comments,
+    });
   } catch (error: any) {
     res
       .status(500)
-      .json({ error: "Failed to retrieve pages", message: error.message });
+      .json({ error: "Failed to retrieve comments", message: error.message });
   }
 });
 
+// Get a record's links to and from other records
+router.get("/links/:pageId", async (req: Request, res: Response) => {
+  try {
+    const { pageId } = req.params;
+    const direction = linkDirection(req, "both");
+
+    if (!direction) {
+      return res
+        .status(400)
+        .json({ error: "direction must be outgoing, incoming or both" });
+    }
+
+    const scope = await scopeQueryToCaller(req.principal, {});
+    const page = await Page.exists({ ...scope, pageId, ...NOT_DELETED });
+    if (!page) {
+      return res.status(404).json({ error: "Record not found" });
+    }
+
+    const links = await getRecordLinks(pageId, direction, scope);
+
+    res.json({
+      success: true,
+      pageId,
+      direction,
+      ...links,
+    });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to retrieve links", message: error.message });
+  }
+});
+
+// Get a record with the records it links to, N links deep
+router.get("/links/:pageId/expand", async (req: Request, res: Response) => {
+  try {
+    const { pageId } = req.params;
+    const { keys = "name" } = req.query;
+    const depth = parseInt(req.query.depth as string) || 1;
+    const direction = linkDirection(req, "outgoing");
+
+    if (keys !== "id" && keys !== "name") {
+      return res.status(400).json({ error: "keys must be id or name" });
+    }
+    if (!direction) {
+      return res
+        .status(400)
+        .json({ error: "direction must be outgoing, incoming or both" });
+    }
+    if (depth < 1 || depth > MAX_EXPAND_DEPTH) {
+      return res
+        .status(400)
+        .json({ error: `depth must be between 1 and ${MAX_EXPAND_DEPTH}` });
+    }
+
+    const graph = await expandRecordLinks(pageId, {
+      depth,
+      direction,
+      keys,
+      scope: await scopeQueryToCaller(req.principal, {}),
+    });
+    if (!graph) {
+      return res.status(404).json({ error: "Record not found" });
+    }
+
+    res.json({
+      success: true,
+      keys,
+      count: graph.records.length,
+      ...graph,
+    });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to expand links", message: error.message });
+  }
+});
+
+// Serve a mirrored attachment by content hash (see Page.fields mirroredUrl)
+router.get("/attachments/:id", async (req: Request, res: Response) => {
+  try {
+    const scope = await scopeQueryToCaller(req.principal, {});
+    const file = await findMirroredFile(req.params.id, scope);
+
+    if (!file) {
+      return res.status(404).json({ error: "Attachment not found" });
+    }
+
+    const { attachment, filePath } = file;
+
+    // Content-addressed, so the bytes behind a URL never change
+    res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+    if (attachment.contentType) res.type(attachment.contentType);
+    if (attachment.filename) {
+      res.setHeader(
+        "Content-Disposition",
+        `inline; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`
+      );
+    }
+
+    res.sendFile(filePath);
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to serve attachment", message: error.message });
+  }
+});
+
+// Sync run history, newest first
+router.get("/sync-runs", async (req: Request, res: Response) => {
+  try {
+    const { status, trigger, connectionId, baseId, since, until } = req.query;
+
+    const result = await listSyncRuns(
+      {
+        status: status as string | undefined,
+        trigger: trigger as string | undefined,
+        connectionId: connectionId as string | undefined,
+        baseId: baseId as string | undefined,
+        since: since as string | undefined,
+        until: until as string | undefined,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 50,
+      },
+      await getAccessibleBaseIds(req.principal)
+    );
+
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to retrieve sync runs", message: error.message });
+  }
+});
+
+// One sync run with its per-base and per-table results and errors
+router.get("/sync-runs/:id", async (req: Request, res: Response) => {
+  try {
+    const run = mongoose.isValidObjectId(req.params.id)
+      ? await getSyncRun(
+          req.params.id,
+          await getAccessibleBaseIds(req.principal)
+        )
+      : null;
+
+    if (!run) {
+      return res.status(404).json({ error: "Sync run not found" });
+    }
+
+    res.json({ success: true, run });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to retrieve sync run", message: error.message });
+  }
+});
+
+// Limiter queues and recent 429s in this process
+router.get("/rate-limits", (req: Request, res: Response) => {
+  res.json({ success: true, ...getRateLimitStats() });
+});
+
 // Get statistics
 router.get("/stats", async (req: Request, res: Response) => {
   try {
+    const scope = await scopeQueryToCaller(req.principal, NOT_DELETED);
+    const baseIds = await getAccessibleBaseIds(req.principal);
+
     const [basesCount, tablesCount, pagesCount, usersCount] = await Promise.all(
       [
-        Base.countDocuments(),
-        Table.countDocuments(),
-        Page.countDocuments(),
-        User.countDocuments(),
+        Base.countDocuments(scope),
+        Table.countDocuments(scope),
+        Page.countDocuments(scope),
+        baseIds === null
+          ? User.countDocuments()
+          : BaseMembership.distinct("userId", {
+              baseId: { $in: baseIds },
+            }).then((ids) => ids.length),
       ]
     );
 
@@ -237,4 +791,22 @@ router.get("/stats", async (req: Request, res: Response) => {
   }
 });
 
+// Permanently remove tombstoned documents, e.g. ?olderThanDays=30
+router.delete("/tombstones", async (req: Request, res: Response) => {
+  try {
+    const days = Number(req.query.olderThanDays);
+    const olderThan =
+      days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+    const purged = await purgeTombstones(olderThan);
+    console.log("[Tombstones] Purged:", purged);
+
+    res.json({ success: true, purged });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to purge tombstones", message: error.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,68 @@
+import { Router, Request, Response } from "express";
+import mongoose from "mongoose";
+import { requireRole } from "../middleware/auth.middleware";
+import { describeJob, getJob, listJobs } from "../services/job.service";
+
+const router = Router();
+
+// Any authenticated caller can follow jobs; only admins see other callers'
+router.use(requireRole("viewer"));
+
+function ownerScope(req: Request): string | null {
+  return req.principal?.role === "admin" ? null : req.principal?.id || "";
+}
+
+// Jobs newest first, filtered by type, status, connection, owner and date
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const { type, status, connectionId, principalId, since, until } = req.query;
+
+    const result = await listJobs(
+      {
+        type: type as string | undefined,
+        status: status as string | undefined,
+        connectionId: connectionId as string | undefined,
+        principalId: principalId as string | undefined,
+        since: since as string | undefined,
+        until: until as string | undefined,
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 50,
+      },
+      ownerScope(req)
+    );
+
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    res
+      .status(500)
+      .json({ error: "Failed to retrieve jobs", message: error.message });
+  }
+});
+
+// One job's progress and, once finished, its result
+router.get("/:jobId", async (req: Request, res: Response) => {
+  try {
+    const owner = ownerScope(req);
+    const job = mongoose.isValidObjectId(req.params.jobId)
+      ? await getJob(req.params.jobId)
+      : null;
+
+    if (!job || (owner !== null && job.principalId !== owner)) {
+      return res.status(404).json({
+        success: false,
+        error: "Job not found",
+        message: "The specified job does not exist",
+      });
+    }
+
+    res.json({ success: true, job: describeJob(job) });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: "Failed to get job status",
+      message: error.message,
+    });
+  }
+});
+
+export default router;
@@ -1,19 +1,39 @@
 import { Router, Request, Response } from "express";
 import { ScrapingService } from "../services/scraping.service";
-import { RevisionHistory, CookieStore, Page } from "../models/airtable.model";
+import mongoose from "mongoose";
+import {
+  RevisionHistory,
+  CookieStore,
+  Job,
+  Page,
+} from "../models/airtable.model";
+import {
+  requireBasePermission,
+  requireRole,
+} from "../middleware/auth.middleware";
+import {
+  getAccessibleBaseIds,
+  scopeQueryToCaller,
+} from "../services/access.service";
+import { recordAuthEvent } from "../services/audit.service";
+import { NOT_DELETED } from "../services/tombstone.service";
+import { describeJob, failJob, getJob } from "../services/job.service";
+import {
+  REVISION_FETCH_JOB,
+  startRevisionFetchJob,
+} from "../services/revision-job.service";
 
 const router = Router();
 
-const activeJobs = new Map<string, any>();
-
-function isJobStalled(job: any): boolean {
-  if (job.status === "completed" || job.status === "failed") {
-    return false;
-  }
-  const lastActivityTime = job.lastActivityTime || job.startTime;
-  const stalledTime = 30 * 60 * 1000; // 30 minutes
-  return Date.now() - lastActivityTime.getTime() > stalledTime;
-}
+// Reads need any authenticated caller; logging in, scraping and job
+// triggers need operator; wiping the stored session cookies needs admin
+router.use(requireRole("viewer"));
+router.post("*", requireRole("operator"));
+router.delete("/cookies", requireRole("admin"));
+router.post(
+  "/revision-history/:baseId/:tableId/:recordId",
+  requireBasePermission("edit")
+);
 
 router.post("/authenticate", async (req: Request, res: Response) => {
   try {
@@ -46,6 +66,16 @@ router.post("/authenticate", async (req: Request, res: Response) => {
     console.log(`   Cookies stored: Yes`);
     console.log(`   Cookies valid: ${isValid}`);
 
+    await recordAuthEvent(
+      {
+        type: "cookie_login",
+        outcome: "success",
+        subject: email,
+        details: { cookiesValid: isValid },
+      },
+      req
+    );
+
     res.json({
       success: true,
       message: "Authentication successful",
@@ -56,6 +86,16 @@ router.post("/authenticate", async (req: Request, res: Response) => {
   } catch (error: any) {
     console.error(" Authentication error:", error.message);
 
+    await recordAuthEvent(
+      {
+        type: "cookie_login",
+        outcome: "failure",
+        reason: error.message,
+        subject: req.body?.email,
+      },
+      req
+    );
+
     if (error.message === "MFA_CODE_REQUIRED") {
       return res.status(400).json({
         success: false,
@@ -171,44 +211,6 @@ router.post("/fetch-all-revisions", async (req: Request, res: Response) => {
   try {
     const { batchSize = 5, force = false } = req.body;
 
-    const existingJob = activeJobs.get("revision-fetch");
-
-    if (existingJob) {
-      if (
-        existingJob.status === "completed" ||
-        existingJob.status === "failed"
-      ) {
-        console.log("Previous job completed, starting new run");
-        activeJobs.delete("revision-fetch");
-      } else if (
-        existingJob.status === "running" &&
-        !isJobStalled(existingJob)
-      ) {
-        if (!force) {
-          return res.status(409).json({
-            success: false,
-            error: "A revision history fetch is already in progress",
-            message:
-              "Please wait for the current job to complete or use force=true",
-            jobId: "revision-fetch",
-            currentJob: {
-              status: existingJob.status,
-              progress: {
-                processed: existingJob.processed,
-                total: existingJob.totalPages,
-                percentage: existingJob.percentage || 0,
-              },
-            },
-          });
-        }
-        console.log(" Force restarting job");
-        activeJobs.delete("revision-fetch");
-      } else if (isJobStalled(existingJob)) {
-        console.warn("  Removing stalled job");
-        activeJobs.delete("revision-fetch");
-      }
-    }
-
     const service = new ScrapingService();
     try {
       await service.getOrExtractCookies();
@@ -221,74 +223,58 @@ router.post("/fetch-all-revisions", async (req: Request, res: Response) => {
       });
     }
 
-    const pageCount = await Page.countDocuments();
+    // Non-admins only scrape history for bases they can see
+    const baseIds = await getAccessibleBaseIds(req.principal);
+    const pageCount = await Page.countDocuments({
+      ...NOT_DELETED,
+      ...(baseIds !== null && { baseId: { $in: baseIds } }),
+    });
+
+    let { job, alreadyRunning } = await startRevisionFetchJob({
+      batchSize,
+      baseIds,
+      principalId: req.principal?.id,
+    });
+
+    if (alreadyRunning) {
+      if (!force) {
+        return res.status(409).json({
+          success: false,
+          error: "A revision history fetch is already in progress",
+          message:
+            "Please wait for the current job to complete or use force=true",
+          jobId: String(job._id),
+          currentJob: {
+            status: job.status,
+            progress: {
+              processed: job.progress?.processed || 0,
+              total: job.progress?.total || pageCount,
+              percentage: job.progress?.percentage || 0,
+            },
+          },
+        });
+      }
+
+      console.log(" Force restarting job");
+      await failJob(String(job._id), "Superseded by a forced restart");
+      ({ job } = await startRevisionFetchJob({
+        batchSize,
+        baseIds,
+        principalId: req.principal?.id,
+      }));
+    }
 
-    console.log(" Starting revision history fetch");
-    console.log(`   Total pages in DB: ${pageCount}`);
+    console.log(" Queued revision history fetch");
     console.log(`   Pages to process: ${pageCount}`);
     console.log(`   Batch size: ${batchSize}`);
 
-    // Create job tracking
-    const jobId = "revision-fetch";
-    const jobInfo = {
-      id: jobId,
-      startTime: new Date(),
-      lastActivityTime: new Date(),
-      status: "running",
-      totalPages: pageCount,
-      processed: 0,
-      withHistory: 0,
-      withoutHistory: 0,
-      errors: 0,
-    };
-    activeJobs.set(jobId, jobInfo);
-
-    // Start asynchronous processing
-    service
-      .fetchAllRevisionHistory(batchSize, (progress) => {
-        // Update job progress
-        const job = activeJobs.get(jobId);
-        if (job) {
-          job.processed = progress.processed;
-          job.withHistory = progress.withHistory;
-          job.withoutHistory = progress.withoutHistory;
-          job.errors = progress.errors;
-          job.percentage = progress.percentage;
-          job.lastActivityTime = new Date();
-        }
-      })
-      .then(() => {
-        console.log(" Revision history fetch completed");
-        const job = activeJobs.get(jobId);
-        if (job) {
-          job.status = "completed";
-          job.endTime = new Date();
-          console.log(`   Processed: ${job.processed}/${job.totalPages}`);
-          console.log(`   With history: ${job.withHistory}`);
-          console.log(`   Without history: ${job.withoutHistory}`);
-          console.log(`   Errors: ${job.errors}`);
-        }
-        setTimeout(() => activeJobs.delete(jobId), 5 * 60 * 1000);
-      })
-      .catch((err) => {
-        console.error(" Revision history fetch failed:", err.message);
-        const job = activeJobs.get(jobId);
-        if (job) {
-          job.status = "failed";
-          job.error = err.message;
-          job.endTime = new Date();
-        }
-        // Clean up after 5 minutes
-        setTimeout(() => activeJobs.delete(jobId), 5 * 60 * 1000);
-      });
-
     res.json({
       success: true,
-      message: "Revision history fetch started",
-      jobId: jobId,
+      message: "Revision history fetch queued",
+      jobId: String(job._id),
       totalPages: pageCount,
       batchSize: batchSize,
-      note: "Check progress at GET /api/scraping/job-status/revision-fetch",
+      note: `Check progress at GET /api/scraping/job-status/${job._id}`,
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
@@ -318,7 +304,9 @@ router.get("/revision-histories", async (req: Request, res: Response) => {
     if (tableId) query.tableId = tableId;
 
     // Fetch histories
-    const histories = await RevisionHistory.find(query)
+    const histories = await RevisionHistory.find(
+      await scopeQueryToCaller(req.principal, query)
+    )
       .sort({ updatedAt: -1 })
       .limit(Number(limit));
 
@@ -384,38 +372,39 @@ router.get("/revision-histories", async (req: Request, res: Response) => {
 router.get("/job-status/:jobId", async (req: Request, res: Response) => {
   try {
     const { jobId } = req.params;
-    const job = activeJobs.get(jobId);
 
-    if (!job) {
+    // "revision-fetch" still names the latest revision scrape
+    const job =
+      jobId === REVISION_FETCH_JOB
+        ? await Job.findOne({ type: REVISION_FETCH_JOB }).sort({
+            createdAt: -1,
+          })
+        : mongoose.isValidObjectId(jobId)
+        ? await getJob(jobId)
+        : null;
+
+    if (!job || job.type !== REVISION_FETCH_JOB) {
       return res.status(404).json({
         success: false,
         error: "Job not found",
-        message: "The specified job does not exist or has expired",
+        message: "The specified job does not exist",
       });
     }
 
-    // Calculate duration
-    const duration = job.endTime
-      ? job.endTime.getTime() - job.startTime.getTime()
-      : new Date().getTime() - job.startTime.getTime();
+    const { progress, ...status } = describeJob(job);
 
     res.json({
       success: true,
       job: {
-        id: job.id,
-        status: job.status,
-        startTime: job.startTime,
-        endTime: job.endTime || null,
-        duration: `${Math.round(duration / 1000)}s`,
+        ...status,
         progress: {
-          total: job.totalPages,
-          processed: job.processed,
-          withHistory: job.withHistory,
-          withoutHistory: job.withoutHistory,
-          errors: job.errors,
-          percentage: job.percentage || 0,
+          total: progress.total || 0,
+          processed: progress.processed || 0,
+          withHistory: progress.withHistory || 0,
+          withoutHistory: progress.withoutHistory || 0,
+          errors: progress.errors || 0,
+          percentage: progress.percentage || 0,
         },
-        error: job.error || null,
       },
     });
   } catch (error: any) {
@@ -445,6 +434,13 @@ router.post(
         });
       }
 
+      if (await Page.exists({ pageId: recordId, deletedAt: { $ne: null } })) {
+        return res.status(410).json({
+          success: false,
+          error: "Record was deleted in Airtable",
+        });
+      }
+
       console.log(`📥 Fetching revision history for: ${recordId}`);
 
       const revisions = await service.fetchRevisionHistory(
@@ -0,0 +1,214 @@
+import { Router, Request, Response } from "express";
+import { Webhook } from "../models/airtable.model";
+import { getServiceForRequest } from "../services/connection.service";
+import { isTokenError } from "../services/token.service";
+import {
+  readMacSecret,
+  registerWebhook,
+  scheduleWebhookProcessing,
+  verifyWebhookMac,
+} from "../services/webhook.service";
+import {
+  requireBasePermission,
+  requireRole,
+} from "../middleware/auth.middleware";
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+const router = Router();
+
+// The receiver is called by Airtable and authenticated by its MAC; managing
+// webhooks needs an operator with edit access to the base
+router.get("/bases/:baseId", requireRole("viewer"));
+router.post("/bases/*", requireRole("operator"));
+router.delete("/bases/*", requireRole("operator"));
+router.get("/bases/:baseId", requireBasePermission("read"));
+router.post(
+  ["/bases/:baseId", "/bases/:baseId/:webhookId/refresh"],
+  requireBasePermission("edit")
+);
+router.delete("/bases/:baseId/:webhookId", requireBasePermission("edit"));
+
+function getNotificationUrl(req: Request): string {
+  return (
+    req.body?.notificationUrl ||
+    process.env.WEBHOOK_NOTIFICATION_URL ||
+    "http://localhost:3000/api/webhooks/airtable"
+  );
+}
+
+router.post("/airtable", async (req: Request, res: Response) => {
+  try {
+    const webhookId = req.body?.webhook?.id;
+    const webhook = webhookId ? await Webhook.findOne({ webhookId }) : null;
+
+    if (!webhook) {
+      console.warn(`[Webhooks] Notification for unknown webhook ${webhookId}`);
+      return res.status(404).json({ error: "Unknown webhook" });
+    }
+
+    if (
+      !req.rawBody ||
+      !verifyWebhookMac(
+        req.rawBody,
+        req.header("x-airtable-content-mac"),
+        readMacSecret(webhook)
+      )
+    ) {
+      console.warn(`[Webhooks] Bad MAC on notification for ${webhookId}`);
+      return res.status(401).json({ error: "Invalid signature" });
+    }
+
+    await Webhook.updateOne(
+      { _id: webhook._id },
+      { lastNotificationAt: new Date() }
+    );
+
+    // Acknowledge right away; payloads are pulled in the background
+    scheduleWebhookProcessing(webhookId);
+    res.status(204).end();
+  } catch (error: any) {
+    console.error("[Webhooks] Error handling notification:", error.message);
+    res.status(500).json({ error: "Failed to handle notification" });
+  }
+});
+
+router.get("/bases/:baseId", async (req: Request, res: Response) => {
+  try {
+    const { baseId } = req.params;
+    const service = await getServiceForRequest(req, res);
+    if (!service) return;
+
+    const [remote, local] = await Promise.all([
+      service.listWebhooks(baseId),
+      Webhook.find({ baseId }).select("-macSecret -macSecretKeyId"),
+    ]);
+    const registered = new Map(local.map((w) => [w.webhookId, w]));
+
+    res.json({
+      success: true,
+      count: remote.length,
+      webhooks: remote.map((w) => ({
+        ...w,
+        registered: registered.has(w.id),
+        cursor: registered.get(w.id)?.cursor ?? null,
+        lastProcessedAt: registered.get(w.id)?.lastProcessedAt ?? null,
+        lastError: registered.get(w.id)?.lastError ?? null,
+      })),
+    });
+  } catch (error: any) {
+    if (isTokenError(error)) {
+      return res
+        .status(401)
+        .json({ error: "Not authenticated or token expired" });
+    }
+
+    console.error("[Webhooks] Error listing webhooks:", error.message);
+    res
+      .status(500)
+      .json({ error: "Failed to list webhooks", message: error.message });
+  }
+});
+
+router.post("/bases/:baseId", async (req: Request, res: Response) => {
+  try {
+    const { baseId } = req.params;
+    const service = await getServiceForRequest(req, res);
+    if (!service) return;
+
+    const webhook = await registerWebhook(
+      service,
+      baseId,
+      getNotificationUrl(req),
+      req.body?.specification
+    );
+
+    console.log(`[Webhooks] Created ${webhook.webhookId} for base ${baseId}`);
+
+    res.status(201).json({
+      success: true,
+      webhookId: webhook.webhookId,
+      baseId,
+      notificationUrl: webhook.notificationUrl,
+      expirationTime: webhook.expirationTime || null,
+    });
+  } catch (error: any) {
+    if (isTokenError(error)) {
+      return res
+        .status(401)
+        .json({ error: "Not authenticated or token expired" });
+    }
+
+    console.error("[Webhooks] Error creating webhook:", error.message);
+    res.status(error.response?.status === 422 ? 422 : 500).json({
+      error: "Failed to create webhook",
+      message: error.response?.data?.error?.message || error.message,
+    });
+  }
+});
+
+router.post(
+  "/bases/:baseId/:webhookId/refresh",
+  async (req: Request, res: Response) => {
+    try {
+      const { baseId, webhookId } = req.params;
+      const service = await getServiceForRequest(req, res);
+      if (!service) return;
+
+      const { expirationTime } = await service.refreshWebhook(
+        baseId,
+        webhookId
+      );
+      await Webhook.updateOne({ webhookId }, { expirationTime });
+
+      res.json({ success: true, webhookId, expirationTime });
+    } catch (error: any) {
+      if (isTokenError(error)) {
+        return res
+          .status(401)
+          .json({ error: "Not authenticated or token expired" });
+      }
+
+      console.error("[Webhooks] Error refreshing webhook:", error.message);
+      res
+        .status(500)
+        .json({ error: "Failed to refresh webhook", message: error.message });
+    }
+  }
+);
+
+router.delete(
+  "/bases/:baseId/:webhookId",
+  async (req: Request, res: Response) => {
+    try {
+      const { baseId, webhookId } = req.params;
+      const service = await getServiceForRequest(req, res);
+      if (!service) return;
+
+      await service.deleteWebhook(baseId, webhookId);
+      await Webhook.deleteOne({ webhookId });
+
+      console.log(`[Webhooks] Deleted ${webhookId} for base ${baseId}`);
+      res.json({ success: true, webhookId });
+    } catch (error: any) {
+      if (isTokenError(error)) {
+        return res
+          .status(401)
+          .json({ error: "Not authenticated or token expired" });
+      }
+
+      console.error("[Webhooks] Error deleting webhook:", error.message);
+      res
+        .status(500)
+        .json({ error: "Failed to delete webhook", message: error.message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,118 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { OAuthToken } from "../models/airtable.model";
+import { decryptValue } from "../services/crypto.service";
+import { encryptTokenFields, requestToken } from "../services/token.service";
+import {
+  AirtableIdentity,
+  fetchIdentity,
+} from "../services/connection.service";
+
+dotenv.config();
+
+/**
+ * Keys OAuth tokens stored before connections existed by the Airtable user
+ * they belong to (/meta/whoami), so they can be used again. An expired
+ * token is refreshed first. When the account already has a connection (or
+ * a newer legacy token resolved to it), the legacy token is a duplicate and
+ * is removed. Tokens Airtable rejects are reported and left alone; the user
+ * has to connect again. Safe to re-run.
+ *
+ * Usage: npm run migrate-connection-ids
+ */
+async function migrate() {
+  const legacy = await OAuthToken.find({
+    $or: [{ connectionId: { $exists: false } }, { connectionId: null }],
+  }).sort({ updatedAt: -1 });
+  const totals = { keyed: 0, duplicates: 0, rejected: 0 };
+
+  for (const token of legacy) {
+    let identity: AirtableIdentity;
+
+    try {
+      identity = await identify(token);
+    } catch (err: any) {
+      totals.rejected++;
+      console.warn(
+        `[MigrateConnectionIds] Token ${token._id} rejected: ${
+          err.response?.status || err.message
+        }`
+      );
+      continue;
+    }
+
+    // Newest first, so the kept token is the most recent one
+    if (await OAuthToken.exists({ connectionId: identity.id })) {
+      await OAuthToken.deleteOne({ _id: token._id });
+      totals.duplicates++;
+      continue;
+    }
+
+    await OAuthToken.updateOne(
+      { _id: token._id },
+      {
+        $set: {
+          connectionId: identity.id,
+          email: identity.email,
+          credentialType: token.get("credentialType") || "oauth",
+        },
+      }
+    );
+    totals.keyed++;
+
+    console.log(`[MigrateConnectionIds] Token ${token._id} → ${identity.id}`);
+  }
+
+  console.log(`[MigrateConnectionIds] Tokens keyed: ${totals.keyed}`);
+  console.log(
+    `[MigrateConnectionIds] Duplicates removed: ${totals.duplicates}`
+  );
+
+  if (totals.rejected) {
+    console.warn(
+      `[MigrateConnectionIds] Rejected by Airtable (reconnect needed): ${totals.rejected}`
+    );
+  }
+}
+
+// Asks Airtable who owns the token, refreshing it once if it has expired
+async function identify(token: InstanceType<typeof OAuthToken>) {
+  const accessToken = decryptValue(token.accessToken, token.accessTokenKeyId);
+
+  try {
+    return await fetchIdentity(accessToken);
+  } catch (err: any) {
+    if (err.response?.status !== 401 || !token.refreshToken) throw err;
+  }
+
+  const refreshToken = decryptValue(
+    token.refreshToken,
+    token.refreshTokenKeyId
+  );
+  const { access_token, refresh_token, expires_in } = await requestToken({
+    grant_type: "refresh_token",
+    refresh_token: refreshToken,
+  });
+
+  await OAuthToken.updateOne(
+    { _id: token._id },
+    {
+      ...encryptTokenFields(access_token, refresh_token || refreshToken),
+      expiresAt: new Date(Date.now() + expires_in * 1000),
+    }
+  );
+
+  return fetchIdentity(access_token);
+}
+
+mongoose
+  .connect(
+    process.env.MONGODB_URI || "mongodb://localhost:27017/airtable-integration"
+  )
+  .then(migrate)
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("[MigrateConnectionIds] Failed:", err.message);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,91 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import {
+  Table,
+  Page,
+  RevisionHistory,
+  SyncWatermark,
+} from "../models/airtable.model";
+
+dotenv.config();
+
+/**
+ * Re-keys Page, RevisionHistory and SyncWatermark documents that were stored
+ * under a table *name* to the real table id (tblXXX), filling in Page's
+ * tableName. Safe to re-run. Names that no longer match a synced table
+ * (renamed before migrating) are reported and left alone; the next full
+ * sync re-creates those records under the id.
+ *
+ * Usage: npm run migrate-table-ids
+ */
+async function migrate() {
+  const tables = await Table.find().select("tableId baseId name");
+  const totals = { pages: 0, duplicates: 0, revisions: 0, watermarks: 0 };
+
+  for (const table of tables) {
+    const { baseId, tableId, name } = table;
+    const legacy = { baseId, tableId: name };
+
+    if (name === tableId || !(await Page.exists(legacy))) {
+      continue;
+    }
+
+    // Records already synced under the id would collide with the unique
+    // (baseId, tableId, pageId) index; the id-keyed copy is newer
+    const alreadyKeyed = await Page.distinct("pageId", { baseId, tableId });
+    const duplicates = await Page.deleteMany({
+      ...legacy,
+      pageId: { $in: alreadyKeyed },
+    });
+
+    const pages = await Page.updateMany(legacy, {
+      $set: { tableId, tableName: name },
+    });
+    const revisions = await RevisionHistory.updateMany(legacy, {
+      $set: { tableId },
+    });
+
+    // A name-keyed watermark can't be trusted for the id; drop it so the
+    // next sync of the table is a full one
+    const watermarks = await SyncWatermark.deleteMany(legacy);
+
+    totals.pages += pages.modifiedCount;
+    totals.duplicates += duplicates.deletedCount;
+    totals.revisions += revisions.modifiedCount;
+    totals.watermarks += watermarks.deletedCount;
+
+    console.log(
+      `[MigrateTableIds] ${baseId}/${name} → ${tableId}: ${pages.modifiedCount} records`
+    );
+  }
+
+  const knownIds = tables.map((t) => t.tableId);
+  const unresolved = await Page.distinct("tableId", {
+    tableId: { $nin: knownIds },
+  });
+
+  console.log(`[MigrateTableIds] Records re-keyed: ${totals.pages}`);
+  console.log(`[MigrateTableIds] Duplicates removed: ${totals.duplicates}`);
+  console.log(
+    `[MigrateTableIds] Revision histories re-keyed: ${totals.revisions}`
+  );
+  console.log(`[MigrateTableIds] Watermarks reset: ${totals.watermarks}`);
+
+  if (unresolved.length) {
+    console.warn(
+      `[MigrateTableIds] No synced table matches: ${unresolved.join(", ")}`
+    );
+  }
+}
+
+mongoose
+  .connect(
+    process.env.MONGODB_URI || "mongodb://localhost:27017/airtable-integration"
+  )
+  .then(migrate)
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("[MigrateTableIds] Failed:", err.message);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,101 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { OAuthToken, CookieStore, Webhook } from "../models/airtable.model";
+import {
+  decryptValue,
+  encryptValue,
+  getActiveKeyId,
+} from "../services/crypto.service";
+
+dotenv.config();
+
+/**
+ * Re-encrypts every stored OAuth token, scraping cookie and webhook MAC
+ * secret under the active key (ENCRYPTION_ACTIVE_KEY_ID). Values still in plaintext are encrypted
+ * too. Keep the previous key in ENCRYPTION_KEYS until this has finished.
+ *
+ * Usage: npm run rotate-keys
+ */
+async function rotate() {
+  const activeKeyId = getActiveKeyId();
+  console.log(`[RotateKeys] Active key: ${activeKeyId}`);
+
+  let tokensRotated = 0;
+  const tokens = await OAuthToken.find({
+    $or: [
+      { accessTokenKeyId: { $ne: activeKeyId } },
+      { refreshToken: { $ne: "" }, refreshTokenKeyId: { $ne: activeKeyId } },
+    ],
+  });
+
+  for (const token of tokens) {
+    const access = encryptValue(
+      decryptValue(token.accessToken, token.accessTokenKeyId)
+    );
+    const $set: any = {
+      accessToken: access.ciphertext,
+      accessTokenKeyId: access.keyId,
+    };
+
+    if (token.refreshToken) {
+      const refresh = encryptValue(
+        decryptValue(token.refreshToken, token.refreshTokenKeyId)
+      );
+      $set.refreshToken = refresh.ciphertext;
+      $set.refreshTokenKeyId = refresh.keyId;
+    }
+
+    // Only the encrypted fields: a full save would validate legacy tokens
+    // (e.g. without connectionId) and stop the rotation halfway
+    await OAuthToken.updateOne({ _id: token._id }, { $set });
+    tokensRotated++;
+  }
+
+  let cookiesRotated = 0;
+  const cookieStores = await CookieStore.find({
+    cookiesKeyId: { $ne: activeKeyId },
+  });
+
+  for (const store of cookieStores) {
+    const cookies = encryptValue(
+      decryptValue(store.cookies, store.cookiesKeyId)
+    );
+    await CookieStore.updateOne(
+      { _id: store._id },
+      { $set: { cookies: cookies.ciphertext, cookiesKeyId: cookies.keyId } }
+    );
+    cookiesRotated++;
+  }
+
+  let webhooksRotated = 0;
+  const webhooks = await Webhook.find({
+    macSecretKeyId: { $ne: activeKeyId },
+  });
+
+  for (const webhook of webhooks) {
+    const secret = encryptValue(
+      decryptValue(webhook.macSecret, webhook.macSecretKeyId)
+    );
+    await Webhook.updateOne(
+      { _id: webhook._id },
+      { $set: { macSecret: secret.ciphertext, macSecretKeyId: secret.keyId } }
+    );
+    webhooksRotated++;
+  }
+
+  console.log(`[RotateKeys] OAuth tokens re-encrypted: ${tokensRotated}`);
+  console.log(`[RotateKeys] Cookie stores re-encrypted: ${cookiesRotated}`);
+  console.log(`[RotateKeys] Webhook secrets re-encrypted: ${webhooksRotated}`);
+}
+
+mongoose
+  .connect(
+    process.env.MONGODB_URI || "mongodb://localhost:27017/airtable-integration"
+  )
+  .then(rotate)
+  .then(() => mongoose.disconnect())
+  .catch(async (err) => {
+    console.error("[RotateKeys] Failed:", err.message);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
@@ -9,6 +9,10 @@ import MongoStore from "connect-mongo";
 import airtableAuthRoutes from "./routes/airtable-auth.routes";
 import airtableDataRoutes from "./routes/airtable-data.routes";
 import scrapingRoutes from "./routes/scraping.routes";
+import adminRoutes from "./routes/admin.routes";
+import webhookRoutes from "./routes/webhook.routes";
+import jobRoutes from "./routes/jobs.routes";
+import { startJobWorker } from "./services/job.service";
 
 dotenv.config();
 
@@ -22,7 +26,14 @@ app.use(
     credentials: true,
   })
 );
-app.use(express.json());
+app.use(
+  express.json({
+    // Webhook notifications are verified against the exact bytes received
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true }));
 
 // Session configuration
@@ -49,13 +60,20 @@ mongoose
   .connect(
     process.env.MONGODB_URI || "mongodb://localhost:27017/airtable-integration"
   )
-  .then(() => console.log("✓ MongoDB connected successfully"))
+  .then(() => {
+    console.log("✓ MongoDB connected successfully");
+    // Job handlers are registered by the route modules imported above
+    startJobWorker();
+  })
   .catch((err) => console.error("✗ MongoDB connection error:", err));
 
 // Routes - IMPORTANT: These must come after middleware
 app.use("/api/auth", airtableAuthRoutes);
 app.use("/api/data", airtableDataRoutes);
 app.use("/api/scraping", scrapingRoutes);
+app.use("/api/admin", adminRoutes);
+app.use("/api/webhooks", webhookRoutes);
+app.use("/api/jobs", jobRoutes);
 
 // Health check
 app.get("/health", (req: Request, res: Response) => {
@@ -66,6 +84,9 @@ app.get("/health", (req: Request, res: Response) => {
       auth: "/api/auth",
       data: "/api/data",
       scraping: "/api/scraping",
+      admin: "/api/admin",
+      webhooks: "/api/webhooks",
+      jobs: "/api/jobs",
     },
   });
 });
@@ -80,6 +101,9 @@ app.get("/", (req: Request, res: Response) => {
       auth: "/api/auth/*",
       data: "/api/data/*",
       scraping: "/api/scraping/*",
+      admin: "/api/admin/*",
+      webhooks: "/api/webhooks/*",
+      jobs: "/api/jobs/*",
     },
   });
 });
@@ -105,6 +129,9 @@ app.use((req: Request, res: Response) => {
       "/api/auth/debug-config",
       "/api/data/*",
       "/api/scraping/*",
+      "/api/admin/*",
+      "/api/webhooks/*",
+      "/api/jobs/*",
     ],
   });
 });
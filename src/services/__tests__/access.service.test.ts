@@ -0,0 +1,67 @@
+import { Base, BaseMembership } from "../../models/airtable.model";
+import {
+  getAccessibleBaseIds,
+  revokeLostBases,
+  revokeRemovedCollaborators,
+} from "../access.service";
+
+jest.mock("../../models/airtable.model", () => ({
+  Base: { distinct: jest.fn() },
+  BaseMembership: { distinct: jest.fn(), deleteMany: jest.fn() },
+}));
+
+const memberships = BaseMembership as jest.Mocked<any>;
+const bases = Base as jest.Mocked<any>;
+
+const viewer = { role: "viewer", airtableUserId: "usrViewer" } as any;
+
+beforeEach(() => jest.resetAllMocks());
+
+describe("getAccessibleBaseIds", () => {
+  it("leaves admins unrestricted", async () => {
+    await expect(getAccessibleBaseIds({ role: "admin" } as any)).resolves.toBe(
+      null
+    );
+  });
+
+  it("leaves out tombstoned bases the caller was a member of", async () => {
+    memberships.distinct.mockResolvedValue(["appLive", "appGone"]);
+    bases.distinct.mockResolvedValue(["appLive"]);
+
+    await expect(getAccessibleBaseIds(viewer)).resolves.toEqual(["appLive"]);
+    expect(bases.distinct).toHaveBeenCalledWith("baseId", {
+      baseId: { $in: ["appLive", "appGone"] },
+      deletedAt: null,
+    });
+  });
+
+  it("gives callers without an Airtable identity nothing", async () => {
+    await expect(
+      getAccessibleBaseIds({ role: "viewer" } as any)
+    ).resolves.toEqual([]);
+    expect(memberships.distinct).not.toHaveBeenCalled();
+  });
+});
+
+describe("revocation", () => {
+  it("drops the connection's memberships of bases it no longer lists", async () => {
+    memberships.deleteMany.mockResolvedValue({ deletedCount: 1 });
+
+    await expect(revokeLostBases("usrA", ["app1", "app2"])).resolves.toBe(1);
+    expect(memberships.deleteMany).toHaveBeenCalledWith({
+      userId: "usrA",
+      baseId: { $nin: ["app1", "app2"] },
+    });
+  });
+
+  it("drops collaborators removed from a base", async () => {
+    memberships.deleteMany.mockResolvedValue({ deletedCount: 2 });
+
+    await expect(revokeRemovedCollaborators("app1", ["usrA"])).resolves.toBe(2);
+    expect(memberships.deleteMany).toHaveBeenCalledWith({
+      baseId: "app1",
+      source: "base_metadata",
+      userId: { $nin: ["usrA"] },
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import axios from "axios";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { Page } from "../../models/airtable.model";
+import {
+  freshAttachmentUrls,
+  mirrorTableAttachments,
+} from "../attachment.service";
+
+jest.mock("axios", () => ({ __esModule: true, default: { get: jest.fn() } }));
+jest.mock("../../models/airtable.model", () => ({
+  Attachment: { findOne: jest.fn(), updateOne: jest.fn() },
+  Page: { find: jest.fn(), updateOne: jest.fn() },
+  Table: { findOne: jest.fn() },
+}));
+
+const { Table } = jest.requireMock("../../models/airtable.model");
+const get = axios.get as jest.Mock;
+
+const thumbnail = (url: string, mirroredUrl?: string) => ({
+  url,
+  width: 36,
+  height: 36,
+  ...(mirroredUrl && { mirroredUrl }),
+});
+
+describe("freshAttachmentUrls", () => {
+  const fresh = {
+    fldA: [
+      {
+        id: "att1",
+        url: "https://fresh/1",
+        thumbnails: {
+          small: thumbnail("https://fresh/1s"),
+          large: thumbnail("https://fresh/1l"),
+        },
+      },
+    ],
+  };
+
+  it("gives unmirrored variants fresh URLs and keeps mirrored copies", () => {
+    const stored = {
+      fldA: [
+        {
+          id: "att1",
+          filename: "a.png",
+          url: "https://old/1",
+          mirroredUrl: "/api/data/attachments/aaa",
+          thumbnails: {
+            small: thumbnail("https://old/1s", "/api/data/attachments/bbb"),
+            large: thumbnail("https://old/1l"),
+          },
+        },
+      ],
+    };
+
+    const $set = freshAttachmentUrls(stored, fresh, ["fldA"]);
+
+    expect($set["fields.fldA"]).toEqual([
+      {
+        id: "att1",
+        filename: "a.png",
+        url: "https://fresh/1",
+        mirroredUrl: "/api/data/attachments/aaa",
+        thumbnails: {
+          small: thumbnail("https://fresh/1s", "/api/data/attachments/bbb"),
+          large: thumbnail("https://fresh/1l"),
+        },
+      },
+    ]);
+    expect($set["normalizedFields.fldA"][0].url).toBe(
+      "/api/data/attachments/aaa"
+    );
+  });
+
+  it("leaves fully mirrored attachments alone", () => {
+    const stored = {
+      fldA: [
+        {
+          id: "att1",
+          url: "https://old/1",
+          mirroredUrl: "/api/data/attachments/aaa",
+          thumbnails: {
+            small: thumbnail("https://old/1s", "/api/data/attachments/bbb"),
+            large: thumbnail("https://old/1l", "/api/data/attachments/ccc"),
+          },
+        },
+      ],
+    };
+
+    expect(freshAttachmentUrls(stored, fresh, ["fldA"])).toEqual({});
+  });
+});
+
+describe("mirrorTableAttachments", () => {
+  let dir: string;
+  // The stored record, as Page.find returns it and Page.updateOne changes it
+  let page: any;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "attachments-"));
+    process.env.ATTACHMENTS_DIR = dir;
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env.ATTACHMENTS_DIR;
+  });
+
+  beforeEach(() => {
+    page = {
+      pageId: "rec1",
+      fields: { fldA: [{ id: "att1", url: "https://expired/1" }] },
+    };
+
+    Table.findOne.mockReturnValue({
+      select: async () => ({
+        fields: [{ id: "fldA", type: "multipleAttachments" }],
+      }),
+    });
+    (Page.find as jest.Mock).mockImplementation(() => ({
+      select: () => ({
+        lean: () => ({
+          cursor: async function* () {
+            yield structuredClone(page);
+          },
+        }),
+      }),
+    }));
+    (Page.updateOne as jest.Mock).mockImplementation(
+      async (_filter, { $set }) => {
+        for (const [key, value] of Object.entries($set)) {
+          const [, fieldId] = key.split(".");
+          if (key.startsWith("fields.")) page.fields[fieldId] = value;
+        }
+      }
+    );
+    get.mockImplementation(async (url: string) => {
+      if (url.startsWith("https://expired/")) {
+        throw Object.assign(new Error("Request failed with status code 410"), {
+          response: { status: 410 },
+        });
+      }
+      return {
+        data: Readable.from([Buffer.from(`content of ${url}`)]),
+        headers: { "content-type": "image/png" },
+      };
+    });
+  });
+
+  it("recovers a failed download once the next sync brings a fresh URL", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    const first = await mirrorTableAttachments("app1", "tbl1");
+
+    expect(first).toMatchObject({ failed: 1, downloaded: 0, records: 0 });
+    expect(page.fields.fldA[0].mirroredUrl).toBeUndefined();
+
+    // The next listing returns the same record with a re-signed URL; its
+    // hash is unchanged, so fetchPages only writes the fresh URL
+    const $set = freshAttachmentUrls(
+      page.fields,
+      { fldA: [{ id: "att1", url: "https://fresh/1" }] },
+      ["fldA"]
+    );
+    page.fields.fldA = $set["fields.fldA"];
+
+    const second = await mirrorTableAttachments("app1", "tbl1");
+
+    expect(second).toMatchObject({ failed: 0, downloaded: 1, records: 1 });
+    expect(page.fields.fldA[0].mirroredUrl).toMatch(
+      /^\/api\/data\/attachments\/[a-f0-9]{64}$/
+    );
+    expect(get).toHaveBeenLastCalledWith("https://fresh/1", expect.anything());
+
+    warn.mockRestore();
+    log.mockRestore();
+  });
+});
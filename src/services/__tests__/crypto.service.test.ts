@@ -0,0 +1,73 @@
+import crypto from "crypto";
+
+const oldKey = crypto.randomBytes(32).toString("base64");
+const newKey = crypto.randomBytes(32).toString("base64");
+
+// Keys are read on first use, so each test loads a fresh copy of the module
+function loadCrypto(keys: string, activeKeyId?: string) {
+  process.env.ENCRYPTION_KEYS = keys;
+  if (activeKeyId) process.env.ENCRYPTION_ACTIVE_KEY_ID = activeKeyId;
+  else delete process.env.ENCRYPTION_ACTIVE_KEY_ID;
+
+  let service!: typeof import("../crypto.service");
+  jest.isolateModules(() => {
+    service = require("../crypto.service");
+  });
+  return service;
+}
+
+describe("encryptValue / decryptValue", () => {
+  it("round-trips a value under the active key", () => {
+    const { encryptValue, decryptValue } = loadCrypto(`k1:${oldKey}`);
+    const sealed = encryptValue("secret token");
+
+    expect(sealed.keyId).toBe("k1");
+    expect(sealed.ciphertext).not.toContain("secret token");
+    expect(decryptValue(sealed.ciphertext, sealed.keyId)).toBe("secret token");
+  });
+
+  it("seals the same value differently each time", () => {
+    const { encryptValue } = loadCrypto(`k1:${oldKey}`);
+
+    expect(encryptValue("a").ciphertext).not.toBe(encryptValue("a").ciphertext);
+  });
+
+  it("opens values sealed with an older key after rotation", () => {
+    const before = loadCrypto(`k1:${oldKey}`);
+    const sealed = before.encryptValue("secret token");
+
+    const after = loadCrypto(`k1:${oldKey},k2:${newKey}`, "k2");
+
+    expect(after.encryptValue("x").keyId).toBe("k2");
+    expect(after.decryptValue(sealed.ciphertext, sealed.keyId)).toBe(
+      "secret token"
+    );
+  });
+
+  it("passes legacy plaintext through when there is no key id", () => {
+    const { decryptValue } = loadCrypto(`k1:${oldKey}`);
+
+    expect(decryptValue("plain token")).toBe("plain token");
+    expect(decryptValue("plain token", null)).toBe("plain token");
+  });
+
+  it("rejects a tampered value", () => {
+    const { encryptValue, decryptValue } = loadCrypto(`k1:${oldKey}`);
+    const sealed = encryptValue("secret token");
+    const tampered = sealed.ciphertext.slice(0, -2) + "AA";
+
+    expect(() => decryptValue(tampered, sealed.keyId)).toThrow();
+  });
+
+  it("rejects an unknown key id and a malformed value", () => {
+    const { encryptValue, decryptValue } = loadCrypto(`k1:${oldKey}`);
+    const sealed = encryptValue("secret token");
+
+    expect(() => decryptValue(sealed.ciphertext, "k9")).toThrow(
+      "Unknown encryption key id: k9"
+    );
+    expect(() => decryptValue("garbage", "k1")).toThrow(
+      "Unsupported encrypted value format"
+    );
+  });
+});
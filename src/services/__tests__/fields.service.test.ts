@@ -0,0 +1,47 @@
+import { hashFields } from "../fields.service";
+
+describe("hashFields", () => {
+  it("doesn't depend on key order", () => {
+    expect(hashFields({ fldA: 1, fldB: { x: 1, y: 2 } })).toBe(
+      hashFields({ fldB: { y: 2, x: 1 }, fldA: 1 })
+    );
+  });
+
+  it("changes when a value changes", () => {
+    expect(hashFields({ fldA: 1 })).not.toBe(hashFields({ fldA: 2 }));
+    expect(hashFields({ fldA: [1, 2] })).not.toBe(hashFields({ fldA: [2, 1] }));
+  });
+
+  it("ignores re-signed attachment URLs and mirrored copies", () => {
+    const attachment = (url: string, extra: any = {}) => ({
+      fldA: [
+        {
+          id: "att1",
+          filename: "a.png",
+          url,
+          thumbnails: { small: { url: `${url}?small` } },
+          ...extra,
+        },
+      ],
+    });
+
+    expect(hashFields(attachment("https://a/1"))).toBe(
+      hashFields(
+        attachment("https://a/2", { mirroredUrl: "/api/data/attachments/x" })
+      )
+    );
+    expect(hashFields(attachment("https://a/1"))).not.toBe(
+      hashFields(attachment("https://a/1", { filename: "b.png" }))
+    );
+  });
+
+  it("keeps url on values that aren't attachments", () => {
+    expect(hashFields({ fldA: { id: "rec1", url: "a" } })).not.toBe(
+      hashFields({ fldA: { id: "rec1", url: "b" } })
+    );
+  });
+
+  it("hashes missing fields like an empty record", () => {
+    expect(hashFields(undefined)).toBe(hashFields({}));
+  });
+});
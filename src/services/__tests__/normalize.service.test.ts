@@ -0,0 +1,102 @@
+import { normalizeValue } from "../normalize.service";
+
+describe("normalizeValue", () => {
+  it("reads dates and rejects invalid ones", () => {
+    expect(normalizeValue("date", {}, "2024-03-01")).toEqual(
+      new Date("2024-03-01")
+    );
+    expect(normalizeValue("dateTime", {}, "not a date")).toBeNull();
+  });
+
+  it("rounds numbers to the field's precision", () => {
+    expect(normalizeValue("number", { precision: 1 }, 3.14159)).toBe(3.1);
+    expect(normalizeValue("currency", { precision: 2 }, "9.999")).toBe(10);
+    expect(normalizeValue("number", {}, "abc")).toBeNull();
+  });
+
+  it("keeps percent as a fraction with precision in percentage digits", () => {
+    expect(normalizeValue("percent", { precision: 1 }, 0.12345)).toBe(0.123);
+  });
+
+  it("treats only true as a checked checkbox", () => {
+    expect(normalizeValue("checkbox", {}, true)).toBe(true);
+    expect(normalizeValue("checkbox", {}, "true")).toBe(false);
+  });
+
+  it("resolves select choices from REST names and webhook objects", () => {
+    const options = {
+      choices: [
+        { id: "selA", name: "Todo" },
+        { id: "selB", name: "Done" },
+      ],
+    };
+
+    expect(normalizeValue("singleSelect", options, "Done")).toEqual({
+      id: "selB",
+      name: "Done",
+    });
+    expect(
+      normalizeValue("multipleSelects", options, [
+        { id: "selA", name: "Todo", color: "blue" },
+        "Gone",
+      ])
+    ).toEqual([
+      { id: "selA", name: "Todo" },
+      { id: null, name: "Gone" },
+    ]);
+  });
+
+  it("prefers the mirrored attachment URL", () => {
+    const item = {
+      id: "att1",
+      filename: "a.png",
+      type: "image/png",
+      size: 10,
+      url: "https://airtable/a.png",
+      mirroredUrl: "/api/data/attachments/abc",
+    };
+
+    expect(normalizeValue("multipleAttachments", {}, [item])).toEqual([
+      {
+        id: "att1",
+        filename: "a.png",
+        type: "image/png",
+        size: 10,
+        url: "/api/data/attachments/abc",
+      },
+    ]);
+  });
+
+  it("reduces record links to ids", () => {
+    expect(
+      normalizeValue("multipleRecordLinks", {}, ["rec1", { id: "rec2" }])
+    ).toEqual(["rec1", "rec2"]);
+  });
+
+  it("normalizes formulas as their result type and drops errors", () => {
+    const options = { result: { type: "number", options: { precision: 0 } } };
+
+    expect(normalizeValue("formula", options, 2.6)).toBe(3);
+    expect(normalizeValue("formula", options, [1.2, 2.7])).toEqual([1, 3]);
+    expect(normalizeValue("formula", options, { error: "#ERROR!" })).toBeNull();
+  });
+
+  it("flattens lookups, including webhook-grouped values", () => {
+    const options = { result: { type: "number", options: {} } };
+
+    expect(normalizeValue("multipleLookupValues", options, ["1", 2])).toEqual([
+      1, 2,
+    ]);
+    expect(
+      normalizeValue("multipleLookupValues", options, {
+        linkedRecordIds: ["rec2", "rec1"],
+        valuesByLinkedRecordId: { rec1: [1], rec2: [2, 3] },
+      })
+    ).toEqual([2, 3, 1]);
+  });
+
+  it("returns null for missing values and passes text through", () => {
+    expect(normalizeValue("singleLineText", {}, undefined)).toBeNull();
+    expect(normalizeValue("singleLineText", {}, "hello")).toBe("hello");
+  });
+});
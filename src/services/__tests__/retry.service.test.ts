@@ -0,0 +1,92 @@
+import { isRetryable, RetryPolicy, withRetry } from "../retry.service";
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${status}`), {
+    response: { status, headers },
+  });
+
+const networkError = (code: string) => Object.assign(new Error(code), { code });
+
+// Short enough to keep the tests fast
+const policy: RetryPolicy = {
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  maxAttempts: 4,
+  maxElapsedMs: 1000,
+};
+
+describe("isRetryable", () => {
+  it("retries rate limits, timeouts and server errors", () => {
+    expect(isRetryable(httpError(429))).toBe(true);
+    expect(isRetryable(httpError(408))).toBe(true);
+    expect(isRetryable(httpError(500))).toBe(true);
+    expect(isRetryable(httpError(503))).toBe(true);
+  });
+
+  it("doesn't retry other client errors", () => {
+    expect(isRetryable(httpError(400))).toBe(false);
+    expect(isRetryable(httpError(403))).toBe(false);
+    expect(isRetryable(httpError(404))).toBe(false);
+    expect(isRetryable(httpError(422))).toBe(false);
+  });
+
+  it("retries dropped connections but not unknown errors", () => {
+    expect(isRetryable(networkError("ECONNRESET"))).toBe(true);
+    expect(isRetryable(networkError("ETIMEDOUT"))).toBe(true);
+    expect(isRetryable(new Error("boom"))).toBe(false);
+  });
+
+  it("only retries non-idempotent requests Airtable didn't act on", () => {
+    expect(isRetryable(httpError(429), false)).toBe(true);
+    expect(isRetryable(networkError("ECONNREFUSED"), false)).toBe(true);
+    expect(isRetryable(httpError(503), false)).toBe(false);
+    expect(isRetryable(networkError("ECONNRESET"), false)).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("returns the first successful result", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValue("ok");
+    const onRetry = jest.fn();
+
+    await expect(withRetry(request, { policy, onRetry })).resolves.toBe("ok");
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => info.attempt)).toEqual([1, 2]);
+  });
+
+  it("fails straight away on a non-retryable error", async () => {
+    const request = jest.fn().mockRejectedValue(httpError(404));
+
+    await expect(withRetry(request, { policy })).rejects.toThrow("HTTP 404");
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after the policy's attempts", async () => {
+    const request = jest.fn().mockRejectedValue(httpError(500));
+
+    await expect(withRetry(request, { policy })).rejects.toThrow("HTTP 500");
+    expect(request).toHaveBeenCalledTimes(policy.maxAttempts);
+  });
+
+  it("gives up when Retry-After would exceed the elapsed limit", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValue(httpError(429, { "retry-after": "30" }));
+
+    await expect(withRetry(request, { policy })).rejects.toThrow("HTTP 429");
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't retry a non-idempotent request on a server error", async () => {
+    const request = jest.fn().mockRejectedValue(httpError(502));
+
+    await expect(
+      withRetry(request, { policy, idempotent: false })
+    ).rejects.toThrow("HTTP 502");
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
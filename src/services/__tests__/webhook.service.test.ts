@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import { Page } from "../../models/airtable.model";
+import { renormalizeTable } from "../normalize.service";
+import {
+  applyWebhookPayload,
+  verifyWebhookMac,
+  WebhookApplyResult,
+} from "../webhook.service";
+
+jest.mock("../../models/airtable.model", () => ({
+  Page: { updateMany: jest.fn() },
+}));
+jest.mock("../normalize.service", () => ({ renormalizeTable: jest.fn() }));
+jest.mock("../tombstone.service", () => ({
+  tombstonePages: jest.fn(
+    async (_b: string, _t: string, ids: string[]) => ids.length
+  ),
+}));
+
+const secret = crypto.randomBytes(32).toString("base64");
+const body = Buffer.from(JSON.stringify({ base: { id: "app1" } }));
+
+const macFor = (payload: Buffer, key = secret) =>
+  "hmac-sha256=" +
+  crypto
+    .createHmac("sha256", Buffer.from(key, "base64"))
+    .update(payload)
+    .digest("hex");
+
+describe("verifyWebhookMac", () => {
+  it("accepts the MAC of the raw body", () => {
+    expect(verifyWebhookMac(body, macFor(body), secret)).toBe(true);
+  });
+
+  it("rejects a modified body", () => {
+    const modified = Buffer.from(body.toString().replace("app1", "app2"));
+
+    expect(verifyWebhookMac(modified, macFor(body), secret)).toBe(false);
+  });
+
+  it("rejects a MAC made with another secret", () => {
+    const other = crypto.randomBytes(32).toString("base64");
+
+    expect(verifyWebhookMac(body, macFor(body, other), secret)).toBe(false);
+  });
+
+  it("rejects missing, unprefixed and truncated headers", () => {
+    const mac = macFor(body);
+
+    expect(verifyWebhookMac(body, undefined, secret)).toBe(false);
+    expect(
+      verifyWebhookMac(body, mac.replace("hmac-sha256=", ""), secret)
+    ).toBe(false);
+    expect(verifyWebhookMac(body, mac.slice(0, -4), secret)).toBe(false);
+  });
+});
+
+describe("applyWebhookPayload", () => {
+  const calls: string[] = [];
+  const service = {
+    connectionId: "usrA",
+    fetchTables: jest.fn(async () => {
+      calls.push("fetchTables");
+      return [];
+    }),
+    refreshRecords: jest.fn(async (_b: string, _t: string, ids: string[]) => {
+      if (ids.length) calls.push(`refresh:${ids.join(",")}`);
+      return ids.length;
+    }),
+  } as any;
+
+  const emptyResult = (): WebhookApplyResult => ({
+    payloads: 0,
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    tablesChanged: 0,
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+    jest.clearAllMocks();
+  });
+
+  it("re-reads the schema before records when fields change", async () => {
+    const result = emptyResult();
+
+    await applyWebhookPayload(
+      "app1",
+      service,
+      {
+        changedTablesById: {
+          tbl1: {
+            createdFieldsById: {
+              fldLink: { name: "Owner", type: "multipleRecordLinks" },
+            },
+            changedFieldsById: {
+              fldSel: { current: { type: "singleSelect" } },
+            },
+            destroyedFieldIds: ["fldOld"],
+            changedRecordsById: { rec1: {} },
+          },
+        },
+      },
+      result
+    );
+
+    expect(calls).toEqual(["fetchTables", "refresh:rec1"]);
+    expect(Page.updateMany).toHaveBeenCalledWith(
+      { baseId: "app1", tableId: "tbl1" },
+      { $unset: { "fields.fldOld": 1, "normalizedFields.fldOld": 1 } }
+    );
+    expect(renormalizeTable).toHaveBeenCalledWith("app1", "tbl1");
+    expect(result).toMatchObject({ updated: 1, tablesChanged: 1 });
+  });
+
+  it("re-reads the schema for created and destroyed tables", async () => {
+    const result = emptyResult();
+
+    await applyWebhookPayload(
+      "app1",
+      service,
+      {
+        createdTablesById: {
+          tblNew: { fieldsById: {}, recordsById: { rec2: {} } },
+        },
+        destroyedTableIds: ["tblGone"],
+      },
+      result
+    );
+
+    expect(calls).toEqual(["fetchTables", "refresh:rec2"]);
+    expect(result).toMatchObject({ created: 1, tablesChanged: 2 });
+  });
+
+  it("leaves the schema alone for record-only changes", async () => {
+    const result = emptyResult();
+
+    await applyWebhookPayload(
+      "app1",
+      service,
+      {
+        changedTablesById: {
+          tbl1: {
+            createdRecordsById: { rec3: {} },
+            destroyedRecordIds: ["rec4"],
+          },
+        },
+      },
+      result
+    );
+
+    expect(service.fetchTables).not.toHaveBeenCalled();
+    expect(calls).toEqual(["refresh:rec3"]);
+    expect(result).toMatchObject({ created: 1, deleted: 1, tablesChanged: 0 });
+  });
+});
@@ -0,0 +1,52 @@
+import { runQueue } from "../work-queue.service";
+
+const tick = () => new Promise((r) => setTimeout(r, 1));
+
+describe("runQueue", () => {
+  it("returns outcomes in input order", async () => {
+    const results = await runQueue([30, 10, 20], 3, async (ms) => {
+      await new Promise((r) => setTimeout(r, ms));
+      return ms * 2;
+    });
+
+    expect(results).toEqual([
+      { status: "fulfilled", value: 60 },
+      { status: "fulfilled", value: 20 },
+      { status: "fulfilled", value: 40 },
+    ]);
+  });
+
+  it("never runs more than `concurrency` items at once", async () => {
+    let active = 0;
+    let peak = 0;
+
+    await runQueue([1, 2, 3, 4, 5, 6, 7], 2, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await tick();
+      active--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it("keeps going after a failing item", async () => {
+    const error = new Error("boom");
+    const seen: number[] = [];
+
+    const results = await runQueue([1, 2, 3], 1, async (n) => {
+      seen.push(n);
+      if (n === 2) throw error;
+      return n;
+    });
+
+    expect(seen).toEqual([1, 2, 3]);
+    expect(results[1]).toEqual({ status: "rejected", reason: error });
+    expect(results[2]).toEqual({ status: "fulfilled", value: 3 });
+  });
+
+  it("runs at least one worker and handles an empty list", async () => {
+    await expect(runQueue([1, 2], 0, async (n) => n)).resolves.toHaveLength(2);
+    await expect(runQueue([], 4, async (n) => n)).resolves.toEqual([]);
+  });
+});
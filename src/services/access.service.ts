@@ -0,0 +1,124 @@
+import { Base, BaseMembership } from "../models/airtable.model";
+import { Principal } from "../middleware/auth.middleware";
+import { NOT_DELETED } from "./tombstone.service";
+
+// Airtable base permission levels, weakest first
+const PERMISSION_RANK: Record<string, number> = {
+  none: 0,
+  read: 1,
+  comment: 2,
+  edit: 3,
+  create: 4,
+  owner: 5,
+};
+
+export function hasPermission(
+  level: string | null | undefined,
+  minimum: string
+): boolean {
+  return (PERMISSION_RANK[level || "none"] || 0) >= PERMISSION_RANK[minimum];
+}
+
+function isUnrestricted(principal?: Principal): boolean {
+  return principal?.role === "admin";
+}
+
+/**
+ * Base ids the caller may read, or null when the caller is unrestricted
+ * (admins). Callers without an Airtable identity see nothing, and
+ * tombstoned bases are nobody's.
+ */
+export async function getAccessibleBaseIds(
+  principal?: Principal
+): Promise<string[] | null> {
+  if (isUnrestricted(principal)) return null;
+  if (!principal?.airtableUserId) return [];
+
+  const memberOf = await BaseMembership.distinct("baseId", {
+    userId: principal.airtableUserId,
+    permissionLevel: { $ne: "none" },
+  });
+  if (!memberOf.length) return [];
+
+  return Base.distinct("baseId", { baseId: { $in: memberOf }, ...NOT_DELETED });
+}
+
+/**
+ * Drops a connection's own memberships of bases its complete base listing
+ * no longer returned (deleted, or shared away from it).
+ */
+export async function revokeLostBases(
+  connectionId: string,
+  listedBaseIds: string[]
+) {
+  const result = await BaseMembership.deleteMany({
+    userId: connectionId,
+    baseId: { $nin: listedBaseIds },
+  });
+  return result.deletedCount;
+}
+
+/**
+ * Drops memberships of a base learned from its collaborator list for users
+ * the latest list no longer contains.
+ */
+export async function revokeRemovedCollaborators(
+  baseId: string,
+  listedUserIds: string[]
+) {
+  const result = await BaseMembership.deleteMany({
+    baseId,
+    source: "base_metadata",
+    userId: { $nin: listedUserIds },
+  });
+  return result.deletedCount;
+}
+
+export async function getBasePermission(
+  principal: Principal | undefined,
+  baseId: string
+): Promise<string | null> {
+  if (isUnrestricted(principal)) return "owner";
+  if (!principal?.airtableUserId) return null;
+
+  const membership = await BaseMembership.findOne({
+    baseId,
+    userId: principal.airtableUserId,
+  });
+
+  return membership?.permissionLevel || null;
+}
+
+/**
+ * Non-admins may only act through their own Airtable connection, so a
+ * sync can't reach bases through someone else's token.
+ */
+export function canUseConnection(
+  principal: Principal | undefined,
+  connectionId: string
+): boolean {
+  return (
+    isUnrestricted(principal) || principal?.airtableUserId === connectionId
+  );
+}
+
+/**
+ * Adds a baseId restriction to a Mongo filter for the caller. The filter's
+ * own baseId (if any) is kept and intersected with the accessible set.
+ */
+export async function scopeQueryToCaller(
+  principal: Principal | undefined,
+  query: any
+): Promise<any> {
+  const baseIds = await getAccessibleBaseIds(principal);
+  if (baseIds === null) return query;
+
+  if (query.baseId) {
+    return {
+      ...query,
+      baseId: baseIds.includes(query.baseId) ? query.baseId : { $in: [] },
+    };
+  }
+
+  return { ...query, baseId: { $in: baseIds } };
+}
@@ -1,53 +1,229 @@
 import axios, { AxiosInstance } from "axios";
-import Bottleneck from "bottleneck";
+import {
+  Base,
+  BaseMembership,
+  ISyncBaseResult,
+  ISyncError,
+  ISyncTableResult,
+  SyncRunStatus,
+  Table,
+  Page,
+  RecordComment,
+  SyncWatermark,
+  User,
+} from "../models/airtable.model";
+import { TokenProvider, tokenProvider } from "./token.service";
+import {
+  recordRateLimitHit,
+  scheduleAirtableRequest,
+} from "./rate-limit.service";
+import { isRateLimited, withRetry } from "./retry.service";
+import {
+  getStoredRecordCounts,
+  getSyncConcurrency,
+  largestFirst,
+  runQueue,
+  SyncConcurrency,
+} from "./work-queue.service";
+import {
+  hasPermission,
+  revokeLostBases,
+  revokeRemovedCollaborators,
+} from "./access.service";
+import { diffFields, FieldDiff, hashFields } from "./fields.service";
+import {
+  attachmentFieldIds,
+  freshAttachmentUrls,
+  mirrorTableAttachments,
+  unmirroredAttachmentsFilter,
+} from "./attachment.service";
+import {
+  describeError,
+  finishSyncRun,
+  recordBaseResult,
+  startSyncRun,
+  summarizeBases,
+} from "./sync-run.service";
+import {
+  getTableSchema,
+  normalizeFields,
+  renormalizeTable,
+} from "./normalize.service";
+import {
+  pruneTableLinks,
+  rebuildTableLinks,
+  syncRecordLinks,
+} from "./links.service";
+import {
+  NOT_DELETED,
+  tombstoneMissingBases,
+  tombstoneMissingPages,
+  tombstoneMissingTables,
+  tombstonePages,
+} from "./tombstone.service";
 
-import Airtable from "airtable";
+// Overridable so a local stand-in for Airtable can be used. Read lazily:
+// route modules load .env after their imports are evaluated
+export function getAirtableApiUrl(): string {
+  return process.env.AIRTABLE_API_URL || "https://api.airtable.com";
+}
+
+// Airtable's limit for record create/update/delete requests
+const RECORDS_PER_REQUEST = 10;
+// Record ids per RECORD_ID() formula when re-reading specific records
+const REFRESH_IDS_PER_REQUEST = 50;
+
+// Records whose comments are fetched at once (the limiter still paces them)
+const COMMENT_FETCH_CONCURRENCY = 3;
+
+// How far before the stored watermark incremental syncs start reading
+const WATERMARK_OVERLAP_MS = 60 * 1000;
+
+export interface PageSyncResult {
+  mode: "full" | "incremental";
+  records: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+}
+
+export interface RecordWriteResult {
+  records: any[];
+  failed: number;
+  error?: { status?: number; message: string };
+}
+
+export interface ConditionalRecord {
+  id: string;
+  fields: any;
+  expectedHash?: string;
+  expectedUpdatedAt?: string;
+}
 
-import { Base, Table, Page, User } from "../models/airtable.model";
+export interface RecordConflict {
+  id: string;
+  reason: "changed" | "deleted";
+  currentHash?: string;
+  diff: FieldDiff[];
+}
+
+export interface SyncOptions {
+  full?: boolean;
+  comments?: boolean;
+  attachments?: boolean;
+  trigger?: "api" | "job";
+  principalId?: string;
+  jobId?: string;
+  concurrency?: Partial<SyncConcurrency>;
+  onProgress?: (event: SyncProgressEvent) => void;
+}
+
+// Reported as a sync goes: which bases and tables it will cover, then each
+// table and base as it finishes
+export type SyncProgressEvent =
+  | { type: "bases"; bases: { id: string; name?: string }[] }
+  | { type: "tables"; baseId: string; tables: { id: string; name?: string }[] }
+  | { type: "table"; baseId: string; table: ISyncTableResult }
+  | { type: "base"; base: ISyncBaseResult };
 
 export class AirtableService {
   private client: AxiosInstance;
-  private baseURL = "https://api.airtable.com/v0";
-  private limiter: Bottleneck;
-  private accessToken: string;
+  private baseURL = `${getAirtableApiUrl()}/v0`;
+  readonly connectionId: string;
+  private tokens: TokenProvider;
+
+  // Requests sent to Airtable by this instance, for sync run stats
+  readonly usage = { apiCalls: 0, retries: 0 };
 
-  constructor(accessToken: string) {
-    this.accessToken = accessToken;
+  constructor(connectionId: string, tokens: TokenProvider = tokenProvider) {
+    this.connectionId = connectionId;
+    this.tokens = tokens;
 
-    // Axios client – only for meta endpoints
+    // Axios client for metadata and record endpoints. The timeout turns a
+    // stalled connection into a retryable error
     this.client = axios.create({
       baseURL: this.baseURL,
+      timeout: Number(process.env.AIRTABLE_REQUEST_TIMEOUT_MS) || 60 * 1000,
       headers: {
-        Authorization: `Bearer ${accessToken}`,
         "Content-Type": "application/json",
       },
     });
 
-    // Bottleneck w/ exponential backoff
-    this.limiter = new Bottleneck({
-      minTime: 200,
-      maxConcurrent: 3,
+    // Token is resolved per request so long syncs pick up refreshed tokens
+    this.client.interceptors.request.use(async (config) => {
+      this.usage.apiCalls++;
+      const accessToken = await this.tokens.getAccessToken(this.connectionId);
+      config.headers.Authorization = `Bearer ${accessToken}`;
+      return config;
     });
 
-    this.limiter.on("failed", async (error, jobInfo) => {
-      if (error.response?.status === 429 || error.statusCode === 429) {
-        const retry = jobInfo.retryCount + 1;
-        const wait = Math.min(2000 * retry, 8000);
-        console.warn(`[RateLimit] 429 → retry in ${wait}ms (attempt ${retry})`);
-        return wait;
+    // A 401 mid-sync means the token was revoked or rotated early:
+    // refresh once and replay the request
+    this.client.interceptors.response.use(undefined, async (error) => {
+      const config = error.config;
+
+      if (error.response?.status === 401 && config && !config._tokenRetried) {
+        config._tokenRetried = true;
+        const staleToken = String(config.headers.Authorization).replace(
+          "Bearer ",
+          ""
+        );
+        console.warn(
+          "[Auth] 401 from Airtable → refreshing token and replaying"
+        );
+        await this.tokens.refresh(this.connectionId, staleToken);
+        return this.client.request(config);
       }
+
+      throw error;
+    });
+  }
+
+  /**
+   * Runs a request through the process-wide limiters for its base (null for
+   * requests that aren't about one base) and this connection's token. Every
+   * Airtable call goes through here, so all share one retry policy; each
+   * attempt waits for the limiters again.
+   */
+  private schedule<T>(
+    baseId: string | null,
+    request: () => Promise<T>,
+    idempotent: boolean = true
+  ): Promise<T> {
+    // Every 429 counts for /rate-limits, including one that ends the retries
+    const send = () =>
+      scheduleAirtableRequest(this.connectionId, baseId, request).catch(
+        (error) => {
+          if (isRateLimited(error)) {
+            recordRateLimitHit(this.connectionId, baseId);
+          }
+          throw error;
+        }
+      );
+
+    return withRetry(send, {
+      idempotent,
+      onRetry: ({ attempt, delayMs, error }) => {
+        this.usage.retries++;
+        console.warn(
+          `[Retry] ${
+            error.response?.status || error.code
+          } → retry in ${Math.round(delayMs)}ms (attempt ${attempt})`
+        );
+      },
     });
   }
 
   async fetchBases() {
-    const allBases = [];
+    const allBases: any[] = [];
     let offset: string | undefined;
 
     try {
       console.log("[FetchBases] Start...");
 
       do {
-        const response = await this.limiter.schedule(() =>
+        const response = await this.schedule(null, () =>
           this.client.get("/meta/bases", { params: offset ? { offset } : {} })
         );
 
@@ -65,8 +241,27 @@ export class AirtableService {
                     baseId: b.id,
                     name: b.name,
                     permissionLevel: b.permissionLevel,
+                    connectionId: this.connectionId,
                     updatedAt: new Date(),
                   },
+                  $unset: { deletedAt: 1 },
+                },
+                upsert: true,
+              },
+            }))
+          );
+
+          // The connection's own access to each base
+          await BaseMembership.bulkWrite(
+            bases.map((b: any) => ({
+              updateOne: {
+                filter: { baseId: b.id, userId: this.connectionId },
+                update: {
+                  $set: {
+                    permissionLevel: b.permissionLevel,
+                    source: "meta_bases",
+                    connectionId: this.connectionId,
+                  },
                 },
                 upsert: true,
               },
@@ -77,6 +272,26 @@ export class AirtableService {
         console.log(`[FetchBases] Got ${bases.length} (more: ${!!offset})`);
       } while (offset);
 
+      // The listing is complete, so anything missing was deleted or shared
+      // away from this connection
+      const removed = await tombstoneMissingBases(
+        this.connectionId,
+        allBases.map((b) => b.id)
+      );
+      if (removed) {
+        console.log(
+          `[FetchBases] Tombstoned ${removed} bases no longer visible`
+        );
+      }
+
+      const revoked = await revokeLostBases(
+        this.connectionId,
+        allBases.map((b) => b.id)
+      );
+      if (revoked) {
+        console.log(`[FetchBases] Revoked access to ${revoked} bases`);
+      }
+
       return allBases;
     } catch (err: any) {
       console.error("[FetchBases] Error:", err.message);
@@ -86,7 +301,7 @@ export class AirtableService {
 
   async fetchTables(baseId: string) {
     try {
-      const response = await this.limiter.schedule(() =>
+      const response = await this.schedule(baseId, () =>
         this.client.get(`/meta/bases/${baseId}/tables`)
       );
       const { tables } = response.data;
@@ -105,13 +320,43 @@ export class AirtableService {
                   primaryFieldId: t.primaryFieldId,
                   fields: t.fields,
                   views: t.views,
+                  connectionId: this.connectionId,
                   updatedAt: new Date(),
                 },
+                $unset: { deletedAt: 1 },
               },
               upsert: true,
             },
           }))
         );
+
+        // Records keep the current table name so a rename shows up
+        // without waiting for each record to change. Not a record change,
+        // so updatedAt (used by write conflict checks) stays put
+        await Page.bulkWrite(
+          tables.map((t: any) => ({
+            updateMany: {
+              filter: { baseId, tableId: t.id, tableName: { $ne: t.name } },
+              update: { $set: { tableName: t.name } },
+            },
+          })),
+          { timestamps: false }
+        );
+
+        // Links from fields that were deleted or converted
+        for (const t of tables) {
+          await pruneTableLinks(baseId, t.id, t.fields);
+        }
+      }
+
+      const removed = await tombstoneMissingTables(
+        baseId,
+        tables.map((t: any) => t.id)
+      );
+      if (removed) {
+        console.log(
+          `[FetchTables] Base ${baseId}: tombstoned ${removed} tables`
+        );
       }
 
       console.log(`[FetchTables] Base ${baseId}: ${tables.length} tables`);
@@ -121,111 +366,1004 @@ export class AirtableService {
       throw err;
     }
   }
-  async fetchPages(baseId: string, tableName: string): Promise<number> {
-    let totalRecords = 0;
+  /**
+   * Syncs one table's records. After the first run only records created or
+   * modified since the table's watermark are requested; `full` ignores the
+   * watermark and re-reads everything, then tombstones records Airtable no
+   * longer returns. Unless `attachments` is false, records with attachments
+   * still to mirror get fresh URLs even when nothing else changed.
+   */
+  async fetchPages(
+    baseId: string,
+    tableIdOrName: string,
+    options: { full?: boolean; attachments?: boolean } = {}
+  ): Promise<PageSyncResult> {
+    const result: PageSyncResult = {
+      mode: "full",
+      records: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      deleted: 0,
+    };
+    const seenPageIds: string[] = [];
+    const table = await this.resolveTable(baseId, tableIdOrName);
+    const { tableId, name: tableName } = table;
+    const runStartedAt = new Date();
+    const attachmentFields =
+      options.attachments === false ? [] : attachmentFieldIds(table.fields);
+
+    // Records still keyed by field name predate field-id storage and are
+    // only rewritten by a full pass
+    const hasNameKeyedRecords = await Page.exists({
+      baseId,
+      tableId,
+      fieldKeys: { $ne: "id" },
+      ...NOT_DELETED,
+    });
+
+    const previous =
+      options.full || hasNameKeyedRecords
+        ? null
+        : await SyncWatermark.findOne({ baseId, tableId });
+
+    // Field ids survive column renames; names are mapped back on read
+    const selectParams: any = { returnFieldsByFieldId: true };
+
+    if (previous) {
+      // Overlap the previous run a little: Airtable's clock, not ours,
+      // stamps LAST_MODIFIED_TIME(). Re-read records count as unchanged
+      const since = new Date(
+        previous.watermark.getTime() - WATERMARK_OVERLAP_MS
+      ).toISOString();
+
+      selectParams.filterByFormula = `OR(IS_AFTER(LAST_MODIFIED_TIME(), '${since}'), IS_AFTER(CREATED_TIME(), '${since}'))`;
+      result.mode = "incremental";
+    }
 
     try {
-      Airtable.configure({ apiKey: this.accessToken });
-      const base = Airtable.base(baseId);
-
-      await new Promise<void>((resolve, reject) => {
-        base(tableName)
-          .select({})
-          .eachPage(
-            async (records, next) => {
-              try {
-                totalRecords += records.length;
-
-                const bulkOps = records.map((r: any) => ({
-                  updateOne: {
-                    filter: { baseId, tableId: tableName, pageId: r.id },
-                    update: {
-                      $set: {
-                        pageId: r.id,
-                        baseId,
-                        tableId: tableName,
-                        fields: r.fields,
-                        createdTime: r.createdTime,
-                        updatedAt: new Date(),
-                      },
-                    },
-                    upsert: true,
-                  },
-                }));
+      let offset: string | undefined;
 
-                if (bulkOps.length) await Page.bulkWrite(bulkOps);
+      // Pages are requested one by one through schedule() rather than the
+      // SDK's eachPage, so they share the limiters and the retry policy
+      do {
+        const response = await this.schedule(baseId, () =>
+          this.client.post(`/${baseId}/${tableId}/listRecords`, {
+            ...selectParams,
+            pageSize: 100,
+            ...(offset && { offset }),
+          })
+        );
+        const records: any[] = response.data.records;
+        offset = response.data.offset;
 
-                await this.limiter.schedule(async () => next());
-              } catch (err) {
-                reject(err);
-              }
-            },
-            (err) => (err ? reject(err) : resolve())
-          );
-      });
+        result.records += records.length;
+        seenPageIds.push(...records.map((r) => r.id));
+
+        const existing = await Page.find({
+          baseId,
+          tableId,
+          pageId: { $in: records.map((r) => r.id) },
+        })
+          .select("pageId fields fieldKeys deletedAt")
+          .lean();
+        const known = new Map(existing.map((p) => [p.pageId, p]));
+        const unchanged: any[] = [];
+
+        const changed = records.filter((r: any) => {
+          const current = known.get(r.id);
+
+          if (!current) {
+            result.created++;
+            return true;
+          }
+          if (
+            !current.deletedAt &&
+            current.fieldKeys === "id" &&
+            hashFields(current.fields) === hashFields(r.fields)
+          ) {
+            result.unchanged++;
+            unchanged.push(r);
+            return false;
+          }
+          result.updated++;
+          return true;
+        });
+
+        await this.mirrorRecords(baseId, tableId, tableName, changed);
+        await this.refreshAttachmentUrls(
+          baseId,
+          tableId,
+          attachmentFields,
+          unchanged,
+          known
+        );
+      } while (offset);
+
+      // An incremental listing leaves out records Airtable didn't change,
+      // so those still waiting on a download are re-read by id
+      if (result.mode === "incremental" && attachmentFields.length) {
+        const pending = await Page.distinct("pageId", {
+          baseId,
+          tableId,
+          fieldKeys: "id",
+          pageId: { $nin: seenPageIds },
+          ...NOT_DELETED,
+          ...unmirroredAttachmentsFilter(attachmentFields),
+        });
+
+        await this.listRecordsById(
+          baseId,
+          tableId,
+          pending,
+          async (records) => {
+            const stored = await Page.find({
+              baseId,
+              tableId,
+              pageId: { $in: records.map((r) => r.id) },
+            })
+              .select("pageId fields")
+              .lean();
+
+            await this.refreshAttachmentUrls(
+              baseId,
+              tableId,
+              attachmentFields,
+              records,
+              new Map(stored.map((p) => [p.pageId, p]))
+            );
+          }
+        );
+      }
+
+      if (result.mode === "full") {
+        result.deleted = await tombstoneMissingPages(
+          baseId,
+          tableId,
+          seenPageIds
+        );
+
+        // Also covers unchanged records and fields added or retyped since
+        await rebuildTableLinks(baseId, tableId, this.connectionId);
+        await renormalizeTable(baseId, tableId);
+      }
+
+      // Only a completed run moves the watermark forward
+      await SyncWatermark.findOneAndUpdate(
+        { baseId, tableId },
+        {
+          baseId,
+          tableId,
+          connectionId: this.connectionId,
+          watermark: runStartedAt,
+          ...(result.mode === "full" && { lastFullSyncAt: runStartedAt }),
+        },
+        { upsert: true }
+      );
 
-      return totalRecords;
+      console.log(
+        `[FetchPages] ${tableName} (${result.mode}): ${result.created} created, ${result.updated} updated, ${result.unchanged} unchanged, ${result.deleted} deleted`
+      );
+      return result;
     } catch (err: any) {
       console.error(`[FetchPages] Error for ${tableName}:`, err.message);
       throw err;
     }
   }
 
-  async fetchAllDataParallel() {
-    console.log("[ParallelSync] Start...");
-    const start = Date.now();
+  /**
+   * Re-reads the given records through listRecords and mirrors them the way
+   * fetchPages does, so every write path stores the same REST shape.
+   * Records Airtable no longer returns are left alone. Returns how many
+   * were mirrored.
+   */
+  async refreshRecords(
+    baseId: string,
+    tableId: string,
+    recordIds: string[]
+  ): Promise<number> {
+    if (!recordIds.length) return 0;
+
+    const { name: tableName } = await this.resolveTable(baseId, tableId);
+    let mirrored = 0;
+
+    await this.listRecordsById(baseId, tableId, recordIds, async (records) => {
+      await this.mirrorRecords(baseId, tableId, tableName, records);
+      mirrored += records.length;
+    });
+
+    return mirrored;
+  }
+
+  /**
+   * Lists the given records (fields keyed by field id) page by page.
+   * Records Airtable no longer returns are left out.
+   */
+  private async listRecordsById(
+    baseId: string,
+    tableId: string,
+    recordIds: string[],
+    onPage: (records: any[]) => Promise<void>
+  ) {
+    // Keeps each formula well under Airtable's URL/formula size limits
+    for (let i = 0; i < recordIds.length; i += REFRESH_IDS_PER_REQUEST) {
+      const ids = recordIds.slice(i, i + REFRESH_IDS_PER_REQUEST);
+      const filterByFormula = `OR(${ids
+        .map((id) => `RECORD_ID()='${id}'`)
+        .join(",")})`;
+      let offset: string | undefined;
+
+      do {
+        const response = await this.schedule(baseId, () =>
+          this.client.post(`/${baseId}/${tableId}/listRecords`, {
+            returnFieldsByFieldId: true,
+            filterByFormula,
+            pageSize: 100,
+            ...(offset && { offset }),
+          })
+        );
+        offset = response.data.offset;
+
+        await onPage(response.data.records);
+      } while (offset);
+    }
+  }
+
+  /**
+   * Writes the URLs of freshly listed records into stored ones whose
+   * attachments aren't all mirrored yet. Not a record change, so updatedAt
+   * stays put.
+   */
+  private async refreshAttachmentUrls(
+    baseId: string,
+    tableId: string,
+    fieldIds: string[],
+    records: any[],
+    stored: Map<string, { fields?: any }>
+  ) {
+    if (!fieldIds.length) return;
+
+    const ops = records.flatMap((r: any) => {
+      const $set = freshAttachmentUrls(
+        stored.get(r.id)?.fields,
+        r.fields,
+        fieldIds
+      );
+      if (!Object.keys($set).length) return [];
+
+      return [
+        {
+          updateOne: {
+            filter: { baseId, tableId, pageId: r.id },
+            update: { $set },
+          },
+        },
+      ];
+    });
+
+    if (ops.length) await Page.bulkWrite(ops, { timestamps: false });
+  }
+
+  /**
+   * Upserts records as Airtable returned them (fields keyed by field id)
+   * into Page, reviving any tombstones, and refreshes their links.
+   */
+  private async mirrorRecords(
+    baseId: string,
+    tableId: string,
+    tableName: string,
+    records: any[]
+  ) {
+    if (!records.length) return;
+
+    const schema = await getTableSchema(tableId);
+
+    await Page.bulkWrite(
+      records.map((r: any) => ({
+        updateOne: {
+          filter: { baseId, tableId, pageId: r.id },
+          update: {
+            $set: {
+              pageId: r.id,
+              baseId,
+              tableId,
+              tableName,
+              fields: r.fields,
+              fieldKeys: "id" as const,
+              normalizedFields: normalizeFields(schema, r.fields),
+              createdTime: r.createdTime,
+              connectionId: this.connectionId,
+              updatedAt: new Date(),
+            },
+            $unset: { deletedAt: 1 },
+          },
+          upsert: true,
+        },
+      }))
+    );
+
+    await syncRecordLinks(baseId, tableId, this.connectionId, records);
+  }
+
+  /**
+   * Sends records to Airtable in batches of RECORDS_PER_REQUEST and runs
+   * `apply` on what each batch wrote. Batches are sent in order and stop at
+   * the first failure; what was written up to then is kept and reported.
+   */
+  private async writeInBatches<T>(
+    baseId: string,
+    items: T[],
+    send: (batch: T[]) => Promise<any[]>,
+    apply: (written: any[]) => Promise<void>,
+    idempotent: boolean = true
+  ): Promise<RecordWriteResult> {
+    const result: RecordWriteResult = { records: [], failed: 0 };
+
+    for (let i = 0; i < items.length; i += RECORDS_PER_REQUEST) {
+      const batch = items.slice(i, i + RECORDS_PER_REQUEST);
+
+      try {
+        const written = await this.schedule(
+          baseId,
+          () => send(batch),
+          idempotent
+        );
+        await apply(written);
+        result.records.push(...written);
+      } catch (err: any) {
+        const message =
+          err.response?.data?.error?.message ||
+          err.response?.data?.error?.type ||
+          err.message;
+
+        console.error(`[WriteRecords] Batch at ${i} failed:`, message);
+        result.failed = items.length - i;
+        result.error = { status: err.response?.status, message };
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates records ({ fields }) or, with PATCH, updates them ({ id, fields })
+   * and mirrors the resulting records into Page. Fields may be given by
+   * name or id; `typecast` lets Airtable coerce values (e.g. new options).
+   */
+  async writeRecords(
+    method: "POST" | "PATCH",
+    baseId: string,
+    tableIdOrName: string,
+    records: any[],
+    options: { typecast?: boolean } = {}
+  ): Promise<RecordWriteResult> {
+    const { tableId, name: tableName } = await this.resolveTable(
+      baseId,
+      tableIdOrName
+    );
+
+    return this.writeInBatches(
+      baseId,
+      records,
+      async (batch) => {
+        const response = await this.client.request({
+          method,
+          url: `/${baseId}/${tableId}`,
+          data: {
+            records: batch,
+            typecast: !!options.typecast,
+            returnFieldsByFieldId: true,
+          },
+        });
+        return response.data.records;
+      },
+      (written) => this.mirrorRecords(baseId, tableId, tableName, written),
+      // A retried create could add the records twice
+      method !== "POST"
+    );
+  }
+
+  /**
+   * Conditional-update check. Each record carrying an expectation (the
+   * fieldsHash or Page.updatedAt the caller last saw) is re-read from
+   * Airtable; records that changed since are reported with a field-level
+   * diff against the caller's version, and our copy is brought up to date
+   * so a retry can start from it. Airtable has no conditional write, so a
+   * change landing between this check and the write is not caught.
+   */
+  async findWriteConflicts(
+    baseId: string,
+    tableIdOrName: string,
+    records: ConditionalRecord[]
+  ): Promise<RecordConflict[]> {
+    const { tableId, name: tableName } = await this.resolveTable(
+      baseId,
+      tableIdOrName
+    );
+    const guarded = records.filter(
+      (r) => r.expectedHash || r.expectedUpdatedAt
+    );
+    if (!guarded.length) return [];
 
-    const bases = await this.fetchBases();
+    const pages = await Page.find({
+      baseId,
+      tableId,
+      pageId: { $in: guarded.map((r) => r.id) },
+    }).lean();
+    const stored = new Map(pages.map((p) => [p.pageId, p]));
 
-    let allUsers: any[] = [];
-    let totalTables = 0;
-    let totalRecords = 0;
+    const conflicts: RecordConflict[] = [];
+    const changed: any[] = [];
+    const deleted: string[] = [];
 
-    await Promise.all(
-      bases.map(async (base) => {
-        try {
-          const [tables, userResult] = await Promise.all([
-            this.fetchTables(base.id),
-            this.fetchUsers(base.id).catch(() => ({ users: [] })),
-          ]);
+    for (const record of guarded) {
+      let live: any;
 
-          allUsers.push(...userResult.users);
-          totalTables += tables.length;
+      try {
+        const response = await this.schedule(baseId, () =>
+          this.client.get(`/${baseId}/${tableId}/${record.id}`, {
+            params: { returnFieldsByFieldId: true },
+          })
+        );
+        live = response.data;
+      } catch (err: any) {
+        if (err.response?.status !== 404) throw err;
+
+        conflicts.push({ id: record.id, reason: "deleted", diff: [] });
+        deleted.push(record.id);
+        continue;
+      }
+
+      // Our copy is the caller's version if it is the one they describe
+      const page = stored.get(record.id);
+      const seenByCaller =
+        page?.fieldKeys === "id" &&
+        (record.expectedHash
+          ? record.expectedHash === hashFields(page.fields)
+          : new Date(record.expectedUpdatedAt!).getTime() ===
+            new Date(page.updatedAt).getTime());
+      const baseline = seenByCaller ? page!.fields : null;
+
+      const currentHash = hashFields(live.fields);
+      const unchanged = record.expectedHash
+        ? record.expectedHash === currentHash
+        : baseline !== null && hashFields(baseline) === currentHash;
+
+      if (unchanged) continue;
+
+      conflicts.push({
+        id: record.id,
+        reason: "changed",
+        currentHash,
+        diff: await diffFields(
+          tableId,
+          baseline || page?.fields || {},
+          live.fields
+        ),
+      });
+      changed.push(live);
+    }
+
+    await this.mirrorRecords(baseId, tableId, tableName, changed);
+    if (deleted.length) await tombstonePages(baseId, tableId, deleted);
 
-          const counts = await Promise.all(
-            tables.map((t: any) => this.fetchPages(base.id, t.name))
+    return conflicts;
+  }
+
+  /**
+   * Deletes records in Airtable and tombstones them in Page.
+   */
+  async deleteRecords(
+    baseId: string,
+    tableIdOrName: string,
+    recordIds: string[]
+  ): Promise<RecordWriteResult> {
+    const { tableId } = await this.resolveTable(baseId, tableIdOrName);
+
+    return this.writeInBatches(
+      baseId,
+      recordIds,
+      async (batch) => {
+        const response = await this.client.delete(`/${baseId}/${tableId}`, {
+          // Serialized as records[]=...&records[]=...
+          params: { records: batch },
+        });
+        return response.data.records;
+      },
+      async (written) => {
+        await tombstonePages(
+          baseId,
+          tableId,
+          written.map((r: any) => r.id)
+        );
+      }
+    );
+  }
+
+  /**
+   * Syncs every comment on one record, tombstoning comments Airtable no
+   * longer returns.
+   */
+  async fetchRecordComments(
+    baseId: string,
+    tableId: string,
+    pageId: string
+  ): Promise<number> {
+    const comments: any[] = [];
+    let offset: string | undefined;
+
+    do {
+      const response = await this.schedule(baseId, () =>
+        this.client.get(`/${baseId}/${tableId}/${pageId}/comments`, {
+          params: { pageSize: 100, ...(offset && { offset }) },
+        })
+      );
+
+      comments.push(...response.data.comments);
+      offset = response.data.offset;
+    } while (offset);
+
+    if (comments.length) {
+      await RecordComment.bulkWrite(
+        comments.map((c: any) => ({
+          updateOne: {
+            filter: { commentId: c.id },
+            update: {
+              $set: {
+                commentId: c.id,
+                baseId,
+                tableId,
+                pageId,
+                author: c.author,
+                text: c.text,
+                mentions: Object.values(c.mentioned || {}),
+                parentCommentId: c.parentCommentId,
+                createdTime: c.createdTime,
+                lastUpdatedTime: c.lastUpdatedTime,
+                connectionId: this.connectionId,
+              },
+              $unset: { deletedAt: 1 },
+            },
+            upsert: true,
+          },
+        }))
+      );
+    }
+
+    await RecordComment.updateMany(
+      {
+        pageId,
+        commentId: { $nin: comments.map((c) => c.id) },
+        ...NOT_DELETED,
+      },
+      { deletedAt: new Date() }
+    );
+
+    return comments.length;
+  }
+
+  /**
+   * Syncs comments for every live record of a table. Airtable only serves
+   * comments per record, so this walks the table's records a few at a time.
+   */
+  async fetchTableComments(
+    baseId: string,
+    tableIdOrName: string
+  ): Promise<number> {
+    const { tableId } = await this.resolveTable(baseId, tableIdOrName);
+    const cursor = Page.find({ baseId, tableId, ...NOT_DELETED })
+      .select("pageId")
+      .lean()
+      .cursor();
+
+    let total = 0;
+    let batch: string[] = [];
+
+    const flush = async () => {
+      const counts = await Promise.all(
+        batch.map((pageId) => this.fetchRecordComments(baseId, tableId, pageId))
+      );
+      total += counts.reduce((a, b) => a + b, 0);
+      batch = [];
+    };
+
+    for await (const page of cursor) {
+      batch.push(page.pageId);
+      if (batch.length >= COMMENT_FETCH_CONCURRENCY) await flush();
+    }
+    await flush();
+
+    console.log(`[Comments] ${tableId}: ${total} comments`);
+    return total;
+  }
+
+  /**
+   * Finds the synced table for an id (or, from older callers, a name),
+   * pulling the base's schema once if it hasn't been synced yet.
+   */
+  private async resolveTable(baseId: string, tableIdOrName: string) {
+    const find = () =>
+      Table.findOne({
+        baseId,
+        $or: [{ tableId: tableIdOrName }, { name: tableIdOrName }],
+        ...NOT_DELETED,
+      });
+
+    let table = await find();
+    if (!table) {
+      await this.fetchTables(baseId);
+      table = await find();
+    }
+    if (!table) {
+      throw new Error("TABLE_NOT_FOUND");
+    }
+
+    return table;
+  }
+
+  /**
+   * Starts a SyncRun for this connection; `finish` closes it with the
+   * Airtable calls and retries made since.
+   */
+  private async beginSyncRun(options: SyncOptions, details: any) {
+    const usageAtStart = { ...this.usage };
+    const run = await startSyncRun({
+      trigger: options.trigger || "api",
+      connectionId: this.connectionId,
+      principalId: options.principalId,
+      jobId: options.jobId,
+      options: {
+        ...details,
+        full: !!options.full,
+        comments: options.comments !== false,
+        attachments: options.attachments !== false,
+      },
+    });
+    const runId = String(run._id);
+
+    return {
+      runId,
+      finish: (status: SyncRunStatus, extra: any = {}) =>
+        finishSyncRun(runId, run.startedAt, {
+          status,
+          apiCalls: this.usage.apiCalls - usageAtStart.apiCalls,
+          retries: this.usage.retries - usageAtStart.retries,
+          ...extra,
+        }),
+    };
+  }
+
+  /**
+   * Syncs one table's records, then mirrors its attachments and fetches its
+   * comments unless turned off. Failures are added to `failures`; only a
+   * failed record sync marks the table failed.
+   */
+  private async syncTableContent(
+    baseId: string,
+    table: { id: string; name?: string },
+    options: SyncOptions,
+    failures: ISyncError[]
+  ): Promise<ISyncTableResult> {
+    const tableStart = Date.now();
+    const result: ISyncTableResult = {
+      tableId: table.id,
+      name: table.name,
+      status: "succeeded",
+      records: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      deleted: 0,
+      comments: 0,
+      attachments: 0,
+      durationMs: 0,
+    };
+    const where = { baseId, tableId: table.id };
+
+    try {
+      const r = await this.fetchPages(baseId, table.id, {
+        full: options.full,
+        attachments: options.attachments,
+      });
+      Object.assign(result, {
+        mode: r.mode,
+        records: r.records,
+        created: r.created,
+        updated: r.updated,
+        unchanged: r.unchanged,
+        deleted: r.deleted,
+      });
+    } catch (err) {
+      result.status = "failed";
+      failures.push(describeError(err, { stage: "pages", ...where }));
+      result.durationMs = Date.now() - tableStart;
+      return result;
+    }
+
+    // Attachment URLs expire, so keep a local copy of each file
+    if (options.attachments !== false) {
+      try {
+        const mirrored = await mirrorTableAttachments(baseId, table.id);
+        result.attachments = mirrored.downloaded + mirrored.reused;
+      } catch (err: any) {
+        console.warn(`[Attachments] Skipped table ${table.id}: ${err.message}`);
+        failures.push(describeError(err, { stage: "attachments", ...where }));
+      }
+    }
+
+    // One request per record, so it can be turned off for big bases
+    if (options.comments !== false) {
+      try {
+        result.comments = await this.fetchTableComments(baseId, table.id);
+      } catch (err: any) {
+        console.warn(`[Comments] Skipped table ${table.id}: ${err.message}`);
+        failures.push(describeError(err, { stage: "comments", ...where }));
+      }
+    }
+
+    result.durationMs = Date.now() - tableStart;
+    return result;
+  }
+
+  /**
+   * Syncs a base's tables, then their content through a bounded queue
+   * (largest first), and records the base's result on the run.
+   */
+  private async syncBaseContent(
+    runId: string,
+    base: { id: string; name?: string },
+    options: SyncOptions,
+    concurrency: SyncConcurrency,
+    tableSizes: Map<string, number>
+  ): Promise<{ result: ISyncBaseResult; users: any[] }> {
+    const baseStart = Date.now();
+    const failures: ISyncError[] = [];
+    const tableResults: ISyncTableResult[] = [];
+    let status: ISyncBaseResult["status"] = "succeeded";
+    let users: any[] = [];
+
+    try {
+      const [tables, userResult] = await Promise.all([
+        this.fetchTables(base.id),
+        this.fetchUsers(base.id).catch((err) => {
+          failures.push(
+            describeError(err, { stage: "users", baseId: base.id })
           );
+          return { users: [] };
+        }),
+      ]);
+      users = userResult.users;
 
-          const recordSum = counts.reduce((a, b) => a + b, 0);
-          totalRecords += recordSum;
+      options.onProgress?.({
+        type: "tables",
+        baseId: base.id,
+        tables: tables.map((t: any) => ({ id: t.id, name: t.name })),
+      });
 
-          console.log(
-            `[Base] ${base.name}: ${tables.length} tables, ${recordSum} records`
+      await runQueue(
+        largestFirst(tables, (t: any) => t.id, tableSizes),
+        concurrency.tablesPerBase,
+        async (t: any) => {
+          const table = await this.syncTableContent(
+            base.id,
+            t,
+            options,
+            failures
           );
-        } catch (err) {
-          console.error(`[Base] Failed ${base.name}`, err);
+          tableResults.push(table);
+          options.onProgress?.({ type: "table", baseId: base.id, table });
         }
-      })
+      );
+
+      if (tableResults.some((r) => r.status === "failed")) {
+        status = "partial";
+      }
+
+      console.log(
+        `[Base] ${base.name}: ${tables.length} tables, ${tableResults.reduce(
+          (a, r) => a + r.records,
+          0
+        )} records`
+      );
+    } catch (err) {
+      console.error(`[Base] Failed ${base.name}`, err);
+      status = "failed";
+      failures.push(describeError(err, { stage: "tables", baseId: base.id }));
+    }
+
+    const result: ISyncBaseResult = {
+      baseId: base.id,
+      name: base.name,
+      status,
+      tables: tableResults,
+      durationMs: Date.now() - baseStart,
+    };
+
+    await recordBaseResult(runId, result, failures);
+    options.onProgress?.({ type: "base", base: result });
+
+    return { result, users };
+  }
+
+  /**
+   * Full sync of every base the connection can see. With minPermissionLevel
+   * set, bases where the connection holds less than that are skipped.
+   * Each run is recorded as a SyncRun with per-base and per-table results;
+   * a failing base or table is recorded and the rest of the run continues.
+   * Bases and each base's tables are worked through queues with bounded
+   * concurrency, biggest first by the records stored from earlier runs.
+   */
+  async fetchAllDataParallel(
+    options: SyncOptions & { minPermissionLevel?: string } = {}
+  ) {
+    console.log("[ParallelSync] Start...");
+    const start = Date.now();
+    const concurrency = { ...getSyncConcurrency(), ...options.concurrency };
+    const { runId, finish } = await this.beginSyncRun(options, {
+      minPermissionLevel: options.minPermissionLevel,
+      concurrency,
+    });
+
+    let allBases: any[];
+    try {
+      allBases = await this.fetchBases();
+    } catch (err) {
+      await finish("failed", {
+        failures: [describeError(err, { stage: "bases" })],
+      });
+      throw err;
+    }
+
+    const bases = options.minPermissionLevel
+      ? allBases.filter((b: any) =>
+          hasPermission(b.permissionLevel, options.minPermissionLevel!)
+        )
+      : allBases;
+
+    if (bases.length < allBases.length) {
+      console.log(
+        `[ParallelSync] Skipping ${
+          allBases.length - bases.length
+        } bases below ${options.minPermissionLevel}`
+      );
+    }
+
+    options.onProgress?.({
+      type: "bases",
+      bases: bases.map((b: any) => ({ id: b.id, name: b.name })),
+    });
+
+    const sizes = await getStoredRecordCounts(bases.map((b: any) => b.id));
+    const baseResults: ISyncBaseResult[] = [];
+    const allUsers: any[] = [];
+
+    await runQueue(
+      largestFirst(bases, (b: any) => b.id, sizes.bases),
+      concurrency.bases,
+      async (base: any) => {
+        const { result, users } = await this.syncBaseContent(
+          runId,
+          base,
+          options,
+          concurrency,
+          sizes.tables
+        );
+        baseResults.push(result);
+        allUsers.push(...users);
+      }
     );
 
     // Unique users by id
     const uniqueUsers = [...new Map(allUsers.map((u) => [u.id, u])).values()];
 
+    const { status, stats } = summarizeBases(baseResults);
+    const fullStats = { ...stats, users: uniqueUsers.length };
+    await finish(status, { stats: fullStats });
+
     return {
-      stats: {
-        bases: bases.length,
-        tables: totalTables,
-        records: totalRecords,
-        users: uniqueUsers.length,
-      },
+      runId,
+      status,
+      stats: fullStats,
       userStats: this.buildUserStats(uniqueUsers),
       durationSeconds: ((Date.now() - start) / 1000).toFixed(2),
     };
   }
+
+  /**
+   * Syncs one base (its tables, records, attachments and comments) as its
+   * own SyncRun.
+   */
+  async syncBase(baseId: string, options: SyncOptions = {}) {
+    const concurrency = { ...getSyncConcurrency(), ...options.concurrency };
+    const { runId, finish } = await this.beginSyncRun(options, {
+      baseId,
+      concurrency,
+    });
+
+    const stored = await Base.findOne({ baseId }).select("name").lean();
+    const base = { id: baseId, name: stored?.name };
+    options.onProgress?.({ type: "bases", bases: [base] });
+
+    const sizes = await getStoredRecordCounts([baseId]);
+    const { result } = await this.syncBaseContent(
+      runId,
+      base,
+      options,
+      concurrency,
+      sizes.tables
+    );
+
+    const { status, stats } = summarizeBases([result]);
+    await finish(status, { stats });
+
+    return { runId, status, stats, base: result };
+  }
+
+  /**
+   * Syncs one table (records, attachments and comments) as its own SyncRun.
+   */
+  async syncTable(
+    baseId: string,
+    tableIdOrName: string,
+    options: SyncOptions = {}
+  ) {
+    const { runId, finish } = await this.beginSyncRun(options, {
+      baseId,
+      tableId: tableIdOrName,
+    });
+    const baseStart = Date.now();
+    const failures: ISyncError[] = [];
+
+    let table: any;
+    try {
+      table = await this.resolveTable(baseId, tableIdOrName);
+    } catch (err) {
+      await finish("failed", {
+        failures: [describeError(err, { stage: "tables", baseId })],
+      });
+      throw err;
+    }
+
+    const stored = await Base.findOne({ baseId }).select("name").lean();
+    options.onProgress?.({
+      type: "bases",
+      bases: [{ id: baseId, name: stored?.name }],
+    });
+    options.onProgress?.({
+      type: "tables",
+      baseId,
+      tables: [{ id: table.tableId, name: table.name }],
+    });
+
+    const tableResult = await this.syncTableContent(
+      baseId,
+      { id: table.tableId, name: table.name },
+      options,
+      failures
+    );
+    options.onProgress?.({ type: "table", baseId, table: tableResult });
+
+    const result: ISyncBaseResult = {
+      baseId,
+      name: stored?.name,
+      status: tableResult.status === "failed" ? "failed" : "succeeded",
+      tables: [tableResult],
+      durationMs: Date.now() - baseStart,
+    };
+    await recordBaseResult(runId, result, failures);
+    options.onProgress?.({ type: "base", base: result });
+
+    const { status, stats } = summarizeBases([result]);
+    await finish(status, { stats });
+
+    return { runId, status, stats, table: tableResult };
+  }
+
   async fetchUsers(baseId: string) {
     const users: any[] = [];
     try {
-      const resp = await this.limiter.schedule(() =>
+      const resp = await this.schedule(null, () =>
         this.client.get("/meta/whoami")
       );
 
@@ -240,12 +1378,16 @@ export class AirtableService {
       console.warn("[FetchUsers] whoami failed:", err.message);
     }
 
+    // Only a collaborator list we actually got can revoke access
+    let listed = false;
+
     try {
-      const resp = await this.limiter.schedule(() =>
+      const resp = await this.schedule(baseId, () =>
         this.client.get(`/meta/bases/${baseId}`, {
           params: { "include[]": "collaborators" },
         })
       );
+      listed = true;
 
       for (const collab of resp.data.collaborators || []) {
         const found = users.find((u) => u.id === collab.id);
@@ -270,6 +1412,36 @@ export class AirtableService {
       }
     }
 
+    const collaborators = users.filter((u) => u.permissionLevel);
+
+    if (collaborators.length) {
+      await BaseMembership.bulkWrite(
+        collaborators.map((u) => ({
+          updateOne: {
+            filter: { baseId, userId: u.id },
+            update: {
+              $set: {
+                permissionLevel: u.permissionLevel,
+                source: "base_metadata",
+                connectionId: this.connectionId,
+              },
+            },
+            upsert: true,
+          },
+        }))
+      );
+    }
+
+    if (listed) {
+      const revoked = await revokeRemovedCollaborators(
+        baseId,
+        collaborators.map((u) => u.id)
+      );
+      if (revoked) {
+        console.log(`[FetchUsers] ${baseId}: removed ${revoked} collaborators`);
+      }
+    }
+
     if (users.length) {
       await User.bulkWrite(
         users.map((u) => ({
@@ -286,6 +1458,7 @@ export class AirtableService {
                 sources: u.sources,
                 baseId,
                 permissionLevel: u.permissionLevel,
+                connectionId: this.connectionId,
               },
             },
             upsert: true,
@@ -304,6 +1477,57 @@ export class AirtableService {
     };
   }
 
+  async listWebhooks(baseId: string) {
+    const response = await this.schedule(baseId, () =>
+      this.client.get(`/bases/${baseId}/webhooks`)
+    );
+    return response.data.webhooks as any[];
+  }
+
+  async createWebhook(baseId: string, notificationUrl: string, spec: any) {
+    const response = await this.schedule(baseId, () =>
+      this.client.post(`/bases/${baseId}/webhooks`, {
+        notificationUrl,
+        specification: spec,
+      })
+    );
+    return response.data as {
+      id: string;
+      macSecretBase64: string;
+      expirationTime?: string;
+    };
+  }
+
+  async refreshWebhook(baseId: string, webhookId: string) {
+    const response = await this.schedule(baseId, () =>
+      this.client.post(`/bases/${baseId}/webhooks/${webhookId}/refresh`)
+    );
+    return response.data as { expirationTime?: string };
+  }
+
+  async deleteWebhook(baseId: string, webhookId: string) {
+    await this.schedule(baseId, () =>
+      this.client.delete(`/bases/${baseId}/webhooks/${webhookId}`)
+    );
+  }
+
+  async fetchWebhookPayloads(
+    baseId: string,
+    webhookId: string,
+    cursor: number
+  ) {
+    const response = await this.schedule(baseId, () =>
+      this.client.get(`/bases/${baseId}/webhooks/${webhookId}/payloads`, {
+        params: { cursor },
+      })
+    );
+    return response.data as {
+      payloads: any[];
+      cursor: number;
+      mightHaveMore: boolean;
+    };
+  }
+
   private buildUserStats(users: any[]) {
     return {
       totalUsers: users.length,
@@ -0,0 +1,408 @@
+import axios from "axios";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { Attachment, Page, Table } from "../models/airtable.model";
+import { NOT_DELETED } from "./tombstone.service";
+import { normalizeValue } from "./normalize.service";
+
+// The uploaded file itself, or one of the thumbnails Airtable renders
+type Variant = "original" | "small" | "large" | "full";
+
+export interface AttachmentMirrorResult {
+  records: number;
+  downloaded: number;
+  reused: number;
+  failed: number;
+}
+
+// Read lazily: route modules load .env after their imports are evaluated
+export function getAttachmentLimits() {
+  return {
+    // Longest wait for the response or for its next chunk
+    timeoutMs: Number(process.env.ATTACHMENT_TIMEOUT_MS) || 60 * 1000,
+    maxBytes: Number(process.env.ATTACHMENT_MAX_BYTES) || 100 * 1024 * 1024,
+  };
+}
+
+export function getAttachmentsDir(): string {
+  return path.resolve(process.env.ATTACHMENTS_DIR || "./data/attachments");
+}
+
+// Two-level fan-out keeps directories small
+function pathForHash(hash: string): string {
+  return path.join(getAttachmentsDir(), hash.substring(0, 2), hash);
+}
+
+export function getMirroredUrl(hash: string): string {
+  return `/api/data/attachments/${hash}`;
+}
+
+/**
+ * Streams a URL to disk while hashing it, then moves it to its
+ * content-addressed path. Identical content is stored once. Downloads that
+ * stall or grow past ATTACHMENT_MAX_BYTES are abandoned, so one bad file
+ * can't hold up a sync.
+ */
+async function download(url: string) {
+  const { timeoutMs, maxBytes } = getAttachmentLimits();
+  const dir = getAttachmentsDir();
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const tmpPath = path.join(dir, `.tmp-${crypto.randomUUID()}`);
+  const hasher = crypto.createHash("sha256");
+  let size = 0;
+
+  // axios' timeout and size limits don't cover a streamed body, so the
+  // stream gets its own idle timer and byte count
+  const controller = new AbortController();
+  let idle: NodeJS.Timeout | undefined;
+  const resetIdle = () => {
+    clearTimeout(idle);
+    idle = setTimeout(() => controller.abort(), timeoutMs);
+  };
+
+  resetIdle();
+
+  try {
+    const response = await axios.get(url, {
+      responseType: "stream",
+      timeout: timeoutMs,
+      maxContentLength: maxBytes,
+      maxBodyLength: maxBytes,
+      signal: controller.signal,
+    });
+
+    if (Number(response.headers["content-length"]) > maxBytes) {
+      response.data.destroy();
+      throw new Error("ATTACHMENT_TOO_LARGE");
+    }
+
+    controller.signal.addEventListener("abort", () =>
+      response.data.destroy(new Error("ATTACHMENT_TIMEOUT"))
+    );
+
+    await pipeline(
+      response.data,
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          resetIdle();
+          size += chunk.length;
+          if (size > maxBytes) throw new Error("ATTACHMENT_TOO_LARGE");
+          hasher.update(chunk);
+          yield chunk;
+        }
+      },
+      fs.createWriteStream(tmpPath)
+    );
+
+    const hash = hasher.digest("hex");
+    const finalPath = pathForHash(hash);
+
+    if (fs.existsSync(finalPath)) {
+      await fs.promises.unlink(tmpPath);
+    } else {
+      await fs.promises.mkdir(path.dirname(finalPath), { recursive: true });
+      await fs.promises.rename(tmpPath, finalPath);
+    }
+
+    return {
+      hash,
+      size,
+      contentType: response.headers["content-type"] as string | undefined,
+    };
+  } catch (err) {
+    await fs.promises.unlink(tmpPath).catch(() => undefined);
+    throw err;
+  } finally {
+    clearTimeout(idle);
+  }
+}
+
+/**
+ * Returns the mirrored copy for one attachment variant, downloading it only
+ * when this attachment id/variant hasn't been stored before (or its file
+ * went missing). Airtable never changes the content behind an attachment id.
+ */
+async function mirrorVariant(
+  item: { id: string; url: string; filename?: string; type?: string },
+  variant: Variant,
+  owner: { baseId: string; tableId: string; pageId: string; fieldId: string },
+  result: AttachmentMirrorResult
+): Promise<string> {
+  const known = await Attachment.findOne({ attachmentId: item.id, variant });
+
+  if (known && fs.existsSync(pathForHash(known.hash))) {
+    result.reused++;
+    return known.hash;
+  }
+
+  const file = await download(item.url);
+  result.downloaded++;
+
+  await Attachment.updateOne(
+    { attachmentId: item.id, variant },
+    {
+      attachmentId: item.id,
+      variant,
+      hash: file.hash,
+      filename: item.filename,
+      contentType:
+        variant === "original"
+          ? item.type || file.contentType
+          : file.contentType,
+      size: file.size,
+      ...owner,
+    },
+    { upsert: true }
+  );
+
+  return file.hash;
+}
+
+const THUMBNAILS: Variant[] = ["small", "large", "full"];
+
+// An attachment item with any variant still to mirror
+const UNMIRRORED = [
+  { mirroredUrl: { $exists: false } },
+  ...THUMBNAILS.map((variant) => ({
+    [`thumbnails.${variant}.url`]: { $exists: true },
+    [`thumbnails.${variant}.mirroredUrl`]: { $exists: false },
+  })),
+];
+
+function isUnmirrored(item: any): boolean {
+  return (
+    !item?.mirroredUrl ||
+    THUMBNAILS.some(
+      (variant) =>
+        item.thumbnails?.[variant]?.url && !item.thumbnails[variant].mirroredUrl
+    )
+  );
+}
+
+export function attachmentFieldIds(schemaFields: any[] = []): string[] {
+  return schemaFields
+    .filter((f: any) => f.type === "multipleAttachments")
+    .map((f: any) => f.id as string);
+}
+
+/**
+ * Matches records with an attachment variant still to mirror in any of the
+ * given fields.
+ */
+export function unmirroredAttachmentsFilter(fieldIds: string[]) {
+  return {
+    $or: fieldIds.map((id) => ({
+      [`fields.${id}`]: { $elemMatch: { $or: UNMIRRORED } },
+    })),
+  };
+}
+
+/**
+ * The Page `$set` that gives a stored record's not yet mirrored attachment
+ * variants the URLs of a fresh listing, keeping the copies already
+ * mirrored. A record whose content is unchanged isn't rewritten by a sync,
+ * so without this a failed download would keep retrying an expired URL.
+ * Empty when nothing needs a new URL.
+ */
+export function freshAttachmentUrls(
+  stored: any,
+  fresh: any,
+  fieldIds: string[]
+): Record<string, any> {
+  const $set: Record<string, any> = {};
+
+  for (const fieldId of fieldIds) {
+    const items = stored?.[fieldId];
+    const freshItems = fresh?.[fieldId];
+    if (!Array.isArray(items) || !Array.isArray(freshItems)) continue;
+
+    const freshById = new Map(freshItems.map((item: any) => [item.id, item]));
+    let changed = false;
+
+    const merged = items.map((item: any) => {
+      const update = freshById.get(item.id);
+      if (!update || !isUnmirrored(item)) return item;
+
+      changed = true;
+      const thumbnails = update.thumbnails && {
+        ...update.thumbnails,
+        ...Object.fromEntries(
+          THUMBNAILS.filter(
+            (v) => update.thumbnails[v] && item.thumbnails?.[v]?.mirroredUrl
+          ).map((v) => [
+            v,
+            {
+              ...update.thumbnails[v],
+              mirroredUrl: item.thumbnails[v].mirroredUrl,
+            },
+          ])
+        ),
+      };
+
+      return { ...item, url: update.url, ...(thumbnails && { thumbnails }) };
+    });
+
+    if (changed) {
+      $set[`fields.${fieldId}`] = merged;
+      $set[`normalizedFields.${fieldId}`] = normalizeValue(
+        "multipleAttachments",
+        undefined,
+        merged
+      );
+    }
+  }
+
+  return $set;
+}
+
+/**
+ * Mirrors attachments (and their thumbnails) of a table's records to local
+ * storage and writes a `mirroredUrl` next to each Airtable URL, which
+ * expires after a few hours. Each variant is mirrored on its own, and only
+ * items with a variant lacking a mirroredUrl are visited, so a failed
+ * variant is retried next run (with the URLs fetchPages refreshed) and
+ * untouched records cost nothing.
+ */
+export async function mirrorTableAttachments(
+  baseId: string,
+  tableId: string
+): Promise<AttachmentMirrorResult> {
+  const result: AttachmentMirrorResult = {
+    records: 0,
+    downloaded: 0,
+    reused: 0,
+    failed: 0,
+  };
+
+  const table = await Table.findOne({ baseId, tableId }).select("fields");
+  const fieldIds = attachmentFieldIds(table?.fields);
+
+  if (!fieldIds.length) return result;
+
+  const cursor = Page.find({
+    baseId,
+    tableId,
+    fieldKeys: "id",
+    ...NOT_DELETED,
+    ...unmirroredAttachmentsFilter(fieldIds),
+  })
+    .select("pageId fields")
+    .lean()
+    .cursor();
+
+  for await (const page of cursor) {
+    const $set: any = {};
+
+    for (const fieldId of fieldIds) {
+      const items: any[] = page.fields?.[fieldId];
+      if (!Array.isArray(items)) continue;
+
+      const owner = { baseId, tableId, pageId: page.pageId, fieldId };
+      let changed = false;
+
+      for (const item of items) {
+        const pending = [
+          { variant: "original" as Variant, target: item },
+          ...THUMBNAILS.map((variant) => ({
+            variant,
+            target: item.thumbnails?.[variant],
+          })),
+        ].filter(({ target }) => target?.url && !target.mirroredUrl);
+
+        for (const { variant, target } of pending) {
+          try {
+            const hash = await mirrorVariant(
+              { ...target, id: item.id },
+              variant,
+              owner,
+              result
+            );
+            target.mirroredUrl = getMirroredUrl(hash);
+            changed = true;
+          } catch (err: any) {
+            // Usually an expired URL; the next sync writes fresh ones
+            // (fetchPages) before retrying
+            result.failed++;
+            console.warn(
+              `[Attachments] ${page.pageId}/${item.id} (${variant}) failed: ${err.message}`
+            );
+          }
+        }
+      }
+
+      if (changed) {
+        $set[`fields.${fieldId}`] = items;
+        $set[`normalizedFields.${fieldId}`] = normalizeValue(
+          "multipleAttachments",
+          undefined,
+          items
+        );
+      }
+    }
+
+    if (Object.keys($set).length) {
+      // Mirroring isn't a change to the record, so updatedAt stays put
+      await Page.updateOne(
+        { baseId, tableId, pageId: page.pageId },
+        { $set },
+        { timestamps: false }
+      );
+      result.records++;
+    }
+  }
+
+  console.log(
+    `[Attachments] ${tableId}: ${result.downloaded} downloaded, ${result.reused} reused, ${result.failed} failed`
+  );
+  return result;
+}
+
+/**
+ * Deletes the Attachment documents of purged records, and each mirrored
+ * file no other attachment still points at (files are shared by content).
+ */
+export async function purgeRecordAttachments(pageIds: string[]) {
+  const owned = await Attachment.find({ pageId: { $in: pageIds } })
+    .select("hash")
+    .lean();
+  if (!owned.length) return { attachments: 0, files: 0 };
+
+  const removed = await Attachment.deleteMany({ pageId: { $in: pageIds } });
+  const hashes = [...new Set(owned.map((a) => a.hash))];
+  const stillUsed = new Set(
+    await Attachment.distinct("hash", { hash: { $in: hashes } })
+  );
+
+  let files = 0;
+  for (const hash of hashes.filter((h) => !stillUsed.has(h))) {
+    try {
+      await fs.promises.unlink(pathForHash(hash));
+      files++;
+    } catch (err: any) {
+      if (err.code !== "ENOENT") {
+        console.warn(`[Attachments] Failed to delete ${hash}: ${err.message}`);
+      }
+    }
+  }
+
+  return { attachments: removed.deletedCount, files };
+}
+
+/**
+ * Looks up a mirrored file by content hash, limited to attachments matching
+ * `scope` (e.g. the caller's bases).
+ */
+export async function findMirroredFile(hash: string, scope: any = {}) {
+  if (!/^[a-f0-9]{64}$/.test(hash)) return null;
+
+  const attachment = await Attachment.findOne({ ...scope, hash });
+  if (!attachment) return null;
+
+  const filePath = pathForHash(hash);
+  if (!fs.existsSync(filePath)) return null;
+
+  return { attachment, filePath };
+}
@@ -0,0 +1,71 @@
+import { Request } from "express";
+import { AuthEvent, AuthEventType } from "../models/airtable.model";
+
+export interface AuthEventInput {
+  type: AuthEventType;
+  outcome: "success" | "failure";
+  reason?: string;
+  connectionId?: string | null;
+  subject?: string;
+  details?: any;
+}
+
+/**
+ * Appends an entry to the auth audit trail. Auditing must never break the
+ * flow it observes, so storage errors are logged and swallowed.
+ */
+export async function recordAuthEvent(
+  event: AuthEventInput,
+  req?: Request
+): Promise<void> {
+  try {
+    await AuthEvent.create({
+      ...event,
+      connectionId: event.connectionId || undefined,
+      principalId: req?.principal?.id,
+      ip: req?.ip,
+      userAgent: req?.header("user-agent"),
+    });
+  } catch (err: any) {
+    console.error(`[Audit] Failed to record ${event.type} event:`, err.message);
+  }
+}
+
+export async function listAuthEvents(filters: {
+  type?: string;
+  outcome?: string;
+  connectionId?: string;
+  since?: string;
+  until?: string;
+  page?: number;
+  limit?: number;
+}) {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(200, Math.max(1, filters.limit || 50));
+  const query: any = {};
+
+  if (filters.type) query.type = filters.type;
+  if (filters.outcome) query.outcome = filters.outcome;
+  if (filters.connectionId) query.connectionId = filters.connectionId;
+  if (filters.since || filters.until) {
+    query.createdAt = {};
+    if (filters.since) query.createdAt.$gte = new Date(filters.since);
+    if (filters.until) query.createdAt.$lte = new Date(filters.until);
+  }
+
+  const [total, events] = await Promise.all([
+    AuthEvent.countDocuments(query),
+    AuthEvent.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+  ]);
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages: Math.ceil(total / limit),
+    events,
+  };
+}
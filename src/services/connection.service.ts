@@ -0,0 +1,126 @@
+import { Request, Response } from "express";
+import axios from "axios";
+import { OAuthToken } from "../models/airtable.model";
+import { encryptTokenFields } from "./token.service";
+import { AirtableService, getAirtableApiUrl } from "./airtable.service";
+import { canUseConnection } from "./access.service";
+import { withRetry } from "./retry.service";
+
+export interface AirtableIdentity {
+  id: string;
+  email?: string;
+  scopes?: string[];
+}
+
+/**
+ * Picks the connection a request operates on. An explicit id (header, query
+ * or body) wins over the one remembered in the browser session.
+ */
+export function resolveConnectionId(req: Request): string | null {
+  const explicit =
+    req.header("x-connection-id") ||
+    (req.query.connectionId as string | undefined) ||
+    req.body?.connectionId;
+
+  if (explicit) return String(explicit);
+
+  return req.session?.connectionId || null;
+}
+
+/**
+ * Builds an AirtableService for the connection the request names, or sends
+ * the 400/401 response itself and returns null. Token freshness is handled
+ * by the shared token provider from here on.
+ */
+export async function getServiceForRequest(
+  req: Request,
+  res: Response
+): Promise<AirtableService | null> {
+  const connectionId = resolveConnectionId(req);
+
+  if (!connectionId) {
+    res.status(400).json({ error: "connectionId is required" });
+    return null;
+  }
+
+  if (!canUseConnection(req.principal, connectionId)) {
+    res.status(403).json({ error: "Not allowed to use this connection" });
+    return null;
+  }
+
+  if (!(await OAuthToken.exists({ connectionId }))) {
+    res.status(401).json({ error: "Not authenticated or token expired" });
+    return null;
+  }
+
+  return new AirtableService(connectionId);
+}
+
+export async function fetchIdentity(
+  accessToken: string
+): Promise<AirtableIdentity> {
+  const response = await withRetry(() =>
+    axios.get(`${getAirtableApiUrl()}/v0/meta/whoami`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+  );
+
+  return {
+    id: response.data.id,
+    email: response.data.email,
+    scopes: response.data.scopes,
+  };
+}
+
+/**
+ * Registers an Airtable Personal Access Token as a connection for headless
+ * use. The token is validated against /meta/whoami first; an existing
+ * credential for the same Airtable account is replaced.
+ */
+export async function registerPersonalAccessToken(pat: string) {
+  let identity: AirtableIdentity;
+
+  try {
+    identity = await fetchIdentity(pat);
+  } catch (err: any) {
+    if ([401, 403].includes(err.response?.status)) {
+      throw new Error("PAT_REJECTED");
+    }
+    throw err;
+  }
+
+  await OAuthToken.findOneAndUpdate(
+    { connectionId: identity.id },
+    {
+      connectionId: identity.id,
+      email: identity.email,
+      credentialType: "pat",
+      ...encryptTokenFields(pat, ""),
+      $unset: { expiresAt: 1, refreshTokenKeyId: 1 },
+      scope: (identity.scopes || []).join(" "),
+      updatedAt: new Date(),
+    },
+    { upsert: true, new: true }
+  );
+
+  return identity;
+}
+
+export async function listConnections() {
+  const tokens = await OAuthToken.find()
+    .select(
+      "connectionId email credentialType scope expiresAt createdAt updatedAt"
+    )
+    .sort({ updatedAt: -1 });
+
+  return tokens.map((t) => ({
+    connectionId: t.connectionId,
+    email: t.email,
+    credentialType: t.credentialType,
+    scopes: t.scope ? t.scope.split(" ") : [],
+    expiresAt: t.expiresAt || null,
+    expired: t.expiresAt ? new Date() > t.expiresAt : false,
+    createdAt: t.createdAt,
+    updatedAt: t.updatedAt,
+  }));
+}
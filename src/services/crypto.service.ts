@@ -0,0 +1,141 @@
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const FORMAT_VERSION = "v1";
+
+export interface EncryptedValue {
+  keyId: string;
+  ciphertext: string;
+}
+
+interface MasterKey {
+  keyId: string;
+  key: Buffer;
+}
+
+interface KeyRing {
+  keys: Map<string, Buffer>;
+  activeKeyId: string;
+}
+
+// Parsed lazily so dotenv has run before the first lookup
+let keyRing: KeyRing | null = null;
+
+/**
+ * Master keys come from ENCRYPTION_KEYS ("keyId:base64Key,keyId:base64Key")
+ * and ENCRYPTION_ACTIVE_KEY_ID picks the one new values are sealed with.
+ * Older keys stay listed so existing values can still be opened until the
+ * rotation script has re-encrypted them.
+ */
+function loadKeys(): KeyRing {
+  if (keyRing) return keyRing;
+
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || "").split(",")) {
+    const [keyId, encoded] = entry.trim().split(":");
+    if (!keyId || !encoded) continue;
+
+    const key = Buffer.from(encoded, "base64");
+    if (key.length !== 32) {
+      throw new Error(`Encryption key ${keyId} must be 32 bytes`);
+    }
+    keys.set(keyId, key);
+  }
+
+  if (keys.size === 0) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("ENCRYPTION_KEYS must be set in production");
+    }
+
+    console.warn(
+      "[Crypto] ENCRYPTION_KEYS not set - deriving a development key from SESSION_SECRET"
+    );
+    keys.set(
+      "dev",
+      crypto
+        .createHash("sha256")
+        .update(process.env.SESSION_SECRET || "your-secret-key")
+        .digest()
+    );
+  }
+
+  const activeKeyId =
+    process.env.ENCRYPTION_ACTIVE_KEY_ID || keys.keys().next().value!;
+
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`Active encryption key ${activeKeyId} is not configured`);
+  }
+
+  keyRing = { keys, activeKeyId };
+  return keyRing;
+}
+
+function getKey(keyId?: string): MasterKey {
+  const { keys, activeKeyId } = loadKeys();
+  const id = keyId || activeKeyId;
+  const key = keys.get(id);
+
+  if (!key) {
+    throw new Error(`Unknown encryption key id: ${id}`);
+  }
+
+  return { keyId: id, key };
+}
+
+export function getActiveKeyId(): string {
+  return loadKeys().activeKeyId;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), data]
+    .map((b) => b.toString("base64url"))
+    .join(".");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, tag, data] = sealed
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+/**
+ * Envelope-encrypts a value: a fresh data key seals the value and the
+ * active master key seals the data key.
+ */
+export function encryptValue(plaintext: string): EncryptedValue {
+  const { keyId, key } = getKey();
+  const dataKey = crypto.randomBytes(32);
+
+  const wrappedKey = seal(key, dataKey);
+  const payload = seal(dataKey, Buffer.from(plaintext, "utf8"));
+
+  return {
+    keyId,
+    ciphertext: `${FORMAT_VERSION}:${wrappedKey}:${payload}`,
+  };
+}
+
+/**
+ * Opens a value sealed by encryptValue. A missing keyId marks a legacy
+ * plaintext value written before encryption was introduced.
+ */
+export function decryptValue(ciphertext: string, keyId?: string | null) {
+  if (!keyId) return ciphertext;
+
+  const [version, wrappedKey, payload] = ciphertext.split(":");
+  if (version !== FORMAT_VERSION || !wrappedKey || !payload) {
+    throw new Error("Unsupported encrypted value format");
+  }
+
+  const dataKey = open(getKey(keyId).key, wrappedKey);
+  return open(dataKey, payload).toString("utf8");
+}
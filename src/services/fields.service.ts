@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import { Table } from "../models/airtable.model";
+
+export type FieldKeyMode = "id" | "name";
+
+interface FieldMaps {
+  idToName: Map<string, string>;
+  nameToId: Map<string, string>;
+}
+
+export interface FieldDiff {
+  fieldId: string;
+  fieldName?: string;
+  expected: any;
+  current: any;
+}
+
+// Parts of a value that change without anyone editing the record: Airtable
+// re-signs attachment URLs, and mirroredUrl is added by us
+function isVolatileKey(owner: any, key: string): boolean {
+  if (key === "mirroredUrl") return true;
+  return (
+    typeof owner.id === "string" &&
+    owner.id.startsWith("att") &&
+    (key === "url" || key === "thumbnails")
+  );
+}
+
+// JSON with object keys sorted, so equal field sets always hash the same
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((k) => !isVolatileKey(value, k))
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hash of a record's stored (field-id keyed) values, ignoring attachment
+ * URLs. Clients send it back with conditional writes to prove which version
+ * they edited, and syncs use it to skip unchanged records.
+ */
+export function hashFields(fields: any): string {
+  return crypto
+    .createHash("sha256")
+    .update(stableStringify(fields || {}))
+    .digest("hex");
+}
+
+/**
+ * Field-level differences between two field-id keyed value sets.
+ */
+export async function diffFields(
+  tableId: string,
+  expected: any = {},
+  current: any = {}
+): Promise<FieldDiff[]> {
+  const names = (await loadFieldMaps([tableId])).get(tableId)?.idToName;
+  const fieldIds = new Set([...Object.keys(expected), ...Object.keys(current)]);
+
+  return [...fieldIds]
+    .filter(
+      (id) => stableStringify(expected[id]) !== stableStringify(current[id])
+    )
+    .map((id) => ({
+      fieldId: id,
+      fieldName: names?.get(id),
+      expected: expected[id] ?? null,
+      current: current[id] ?? null,
+    }));
+}
+
+export async function loadFieldMaps(
+  tableIds: string[]
+): Promise<Map<string, FieldMaps>> {
+  const tables = await Table.find({ tableId: { $in: tableIds } })
+    .select("tableId fields")
+    .lean();
+
+  return new Map(
+    tables.map((t) => [
+      t.tableId,
+      {
+        idToName: new Map((t.fields || []).map((f: any) => [f.id, f.name])),
+        nameToId: new Map((t.fields || []).map((f: any) => [f.name, f.id])),
+      },
+    ])
+  );
+}
+
+function rekey(fields: any, map: Map<string, string> | undefined) {
+  if (!fields || !map) return fields;
+
+  // Keys the schema doesn't know (e.g. a deleted column) are kept as-is
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [map.get(key) || key, value])
+  );
+}
+
+/**
+ * Returns the records with `fields` (and `normalizedFields`) keyed by field
+ * id or by the table's current field names, using the synced Table schema.
+ * Records stored before field ids were used are converted the other way
+ * round. Each record also gets the `fieldsHash` of its stored values for
+ * conditional writes.
+ */
+export async function presentFields<
+  T extends {
+    tableId: string;
+    fields?: any;
+    fieldKeys?: string;
+    normalizedFields?: any;
+  }
+>(pages: T[], keys: FieldKeyMode): Promise<T[]> {
+  const maps = await loadFieldMaps([...new Set(pages.map((p) => p.tableId))]);
+
+  return pages.map((page) => {
+    // Hash of the stored values, for conditional writes
+    const fieldsHash = hashFields(page.fields);
+    const storedKeys = page.fieldKeys === "id" ? "id" : "name";
+    if (storedKeys === keys) return { ...page, fieldsHash };
+
+    const tableMaps = maps.get(page.tableId);
+    const map = keys === "name" ? tableMaps?.idToName : tableMaps?.nameToId;
+
+    return {
+      ...page,
+      fields: rekey(page.fields, map),
+      fieldKeys: keys,
+      fieldsHash,
+      // Always stored by field id
+      ...(page.normalizedFields &&
+        keys === "name" && {
+          normalizedFields: rekey(page.normalizedFields, tableMaps?.idToName),
+        }),
+    };
+  });
+}
@@ -0,0 +1,355 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { IJob, Job } from "../models/airtable.model";
+
+interface JobConfig {
+  leaseMs: number;
+  heartbeatMs: number;
+  pollMs: number;
+  concurrency: number;
+  maxAttempts: number;
+}
+
+// Read lazily: route modules load .env after their imports are evaluated
+export function getJobConfig(): JobConfig {
+  return {
+    leaseMs: Number(process.env.JOB_LEASE_MS) || 2 * 60 * 1000,
+    heartbeatMs: Number(process.env.JOB_HEARTBEAT_MS) || 20 * 1000,
+    pollMs: Number(process.env.JOB_POLL_MS) || 5 * 1000,
+    concurrency: Number(process.env.JOB_CONCURRENCY) || 2,
+    maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS) || 3,
+  };
+}
+
+export interface JobContext {
+  // The job as claimed; progress saved by an earlier attempt is kept so a
+  // handler can resume from it
+  job: IJob;
+  // Saves progress and renews the lease. Throws JOB_LEASE_LOST once another
+  // worker or a forced restart has taken the job over
+  progress(progress: any): Promise<void>;
+}
+
+export type JobHandler = (context: JobContext) => Promise<any>;
+
+const handlers = new Map<string, JobHandler>();
+// Cleanup for jobs failed after their last worker died mid-run
+const abandonHooks = new Map<string, (job: IJob) => Promise<unknown>>();
+
+// Identifies this process as a lease holder
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+export function registerJobHandler(
+  type: string,
+  handler: JobHandler,
+  onAbandoned?: (job: IJob) => Promise<unknown>
+) {
+  handlers.set(type, handler);
+  if (onAbandoned) abandonHooks.set(type, onAbandoned);
+}
+
+/**
+ * A running job whose lease ran out: its worker died or hung. Stale jobs
+ * are claimed again by the next free worker.
+ */
+export function isJobStale(job: IJob): boolean {
+  return (
+    job.status === "running" &&
+    !!job.leaseExpiresAt &&
+    job.leaseExpiresAt.getTime() <= Date.now()
+  );
+}
+
+function leaseUntil() {
+  return new Date(Date.now() + getJobConfig().leaseMs);
+}
+
+/**
+ * Queues a job unless one of the same type and key is already queued or
+ * running; that one is returned with `alreadyRunning` set. A running job
+ * on a stale lease counts too, since the next free worker resumes it.
+ */
+export async function enqueueJob(input: {
+  type: string;
+  key: string;
+  params?: any;
+  connectionId?: string;
+  principalId?: string;
+}): Promise<{ job: IJob; alreadyRunning: boolean }> {
+  const findActive = () =>
+    Job.findOne({
+      type: input.type,
+      key: input.key,
+      status: { $in: ["queued", "running"] },
+    });
+
+  const existing = await findActive();
+  if (existing) return { job: existing, alreadyRunning: true };
+
+  try {
+    const job = await Job.create({ ...input, status: "queued" });
+    pollSoon();
+
+    return { job, alreadyRunning: false };
+  } catch (err: any) {
+    // Another request queued it in between; the unique index kept one
+    if (err.code !== 11000) throw err;
+
+    const active = await findActive();
+    if (!active) throw err;
+    return { job: active, alreadyRunning: true };
+  }
+}
+
+/**
+ * Fails a queued or running job, e.g. for a forced restart. A worker still
+ * running it loses its lease and stops at its next progress update.
+ */
+export async function failJob(id: string, error: string) {
+  await Job.updateOne(
+    { _id: id, status: { $in: ["queued", "running"] } },
+    {
+      status: "failed",
+      error,
+      finishedAt: new Date(),
+      $unset: { leaseOwner: 1, leaseExpiresAt: 1 },
+    }
+  );
+}
+
+// Stale jobs that used up their attempts fail instead of being claimed
+async function failExhaustedJobs() {
+  const { maxAttempts } = getJobConfig();
+  const exhausted = {
+    status: "running",
+    leaseExpiresAt: { $lte: new Date() },
+    attempts: { $gte: maxAttempts },
+  };
+
+  for (const job of await Job.find(exhausted)) {
+    const failed = await Job.updateOne(
+      { _id: job._id, ...exhausted },
+      {
+        status: "failed",
+        error: `Lease expired after ${maxAttempts} attempts`,
+        finishedAt: new Date(),
+        $unset: { leaseOwner: 1, leaseExpiresAt: 1 },
+      }
+    );
+
+    if (failed.modifiedCount) await abandonHooks.get(job.type)?.(job);
+  }
+}
+
+// Oldest queued or stale job this process has a handler for
+function claimNextJob() {
+  const now = new Date();
+
+  return Job.findOneAndUpdate(
+    {
+      type: { $in: [...handlers.keys()] },
+      $or: [
+        { status: "queued" },
+        { status: "running", leaseExpiresAt: { $lte: now } },
+      ],
+    },
+    {
+      status: "running",
+      leaseOwner: WORKER_ID,
+      leaseExpiresAt: leaseUntil(),
+      heartbeatAt: now,
+      $inc: { attempts: 1 },
+      // Only set on the first claim
+      $min: { startedAt: now },
+    },
+    { sort: { createdAt: 1 }, new: true }
+  );
+}
+
+async function runJob(job: IJob) {
+  const handler = handlers.get(job.type)!;
+  const owned = { _id: job._id, leaseOwner: WORKER_ID, status: "running" };
+  const released = () => ({
+    finishedAt: new Date(),
+    $unset: { leaseOwner: 1, leaseExpiresAt: 1 },
+  });
+
+  console.log(
+    `[Jobs] Running ${job.type} ${job._id} (attempt ${job.attempts})`
+  );
+
+  const heartbeat = setInterval(() => {
+    Job.updateOne(owned, {
+      leaseExpiresAt: leaseUntil(),
+      heartbeatAt: new Date(),
+    })
+      .exec()
+      .catch((err) => console.error("[Jobs] Heartbeat failed:", err.message));
+  }, getJobConfig().heartbeatMs);
+
+  // Writes one at a time so a slow save can't land after a newer one
+  let saving = Promise.resolve();
+  const progress = (value: any) => {
+    saving = saving.then(async () => {
+      const result = await Job.updateOne(owned, {
+        progress: value,
+        leaseExpiresAt: leaseUntil(),
+        heartbeatAt: new Date(),
+      });
+      if (!result.matchedCount) throw new Error("JOB_LEASE_LOST");
+    });
+    return saving;
+  };
+
+  try {
+    const result = await handler({ job, progress });
+    await saving.catch(() => undefined);
+    await Job.updateOne(owned, {
+      status: "completed",
+      result,
+      ...released(),
+    });
+    console.log(`[Jobs] Completed ${job.type} ${job._id}`);
+  } catch (err: any) {
+    if (err.message === "JOB_LEASE_LOST") {
+      console.warn(`[Jobs] Lost the lease on ${job.type} ${job._id}`);
+      return;
+    }
+
+    console.error(`[Jobs] Failed ${job.type} ${job._id}:`, err.message);
+    await Job.updateOne(owned, {
+      status: "failed",
+      error: err.message,
+      ...released(),
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+let running = 0;
+let pumping = false;
+
+// Claims jobs until this process is at its concurrency
+async function pump() {
+  if (pumping || !handlers.size) return;
+  pumping = true;
+
+  try {
+    await failExhaustedJobs();
+
+    while (running < getJobConfig().concurrency) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      running++;
+      runJob(job)
+        .catch((err) => console.error("[Jobs] Worker error:", err.message))
+        .finally(() => {
+          running--;
+          pollSoon();
+        });
+    }
+  } catch (err: any) {
+    console.error("[Jobs] Failed to claim jobs:", err.message);
+  } finally {
+    pumping = false;
+  }
+}
+
+let started = false;
+
+function pollSoon() {
+  if (started) setImmediate(pump);
+}
+
+/**
+ * Starts claiming jobs in this process: right away, on every poll and as
+ * soon as a job is queued or finished here. Call once Mongo is connected.
+ */
+export function startJobWorker() {
+  if (started) return;
+  started = true;
+
+  setInterval(pump, getJobConfig().pollMs);
+  pollSoon();
+  console.log(`✓ Job worker ${WORKER_ID} started`);
+}
+
+export async function getJob(id: string) {
+  return Job.findById(id);
+}
+
+/**
+ * A job in the shape of GET /api/scraping/job-status/:jobId, plus its
+ * type, params, result and lease.
+ */
+export function describeJob(job: IJob) {
+  const start = job.startedAt || job.createdAt;
+  const duration = (job.finishedAt || new Date()).getTime() - start.getTime();
+
+  return {
+    id: String(job._id),
+    type: job.type,
+    status: job.status,
+    params: job.params,
+    startTime: start,
+    endTime: job.finishedAt || null,
+    duration: `${Math.round(duration / 1000)}s`,
+    progress: job.progress || { percentage: 0 },
+    result: job.result ?? null,
+    error: job.error || null,
+    attempts: job.attempts,
+    heartbeatAt: job.heartbeatAt || null,
+    stale: isJobStale(job),
+    createdAt: job.createdAt,
+  };
+}
+
+/**
+ * Jobs newest first. `principalId` null means no owner limit (admins).
+ */
+export async function listJobs(
+  filters: {
+    type?: string;
+    status?: string;
+    connectionId?: string;
+    principalId?: string;
+    since?: string;
+    until?: string;
+    page?: number;
+    limit?: number;
+  },
+  principalId: string | null
+) {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(200, Math.max(1, filters.limit || 50));
+  const query: any = {};
+
+  if (filters.type) query.type = filters.type;
+  if (filters.status) query.status = filters.status;
+  if (filters.connectionId) query.connectionId = filters.connectionId;
+  if (filters.principalId) query.principalId = filters.principalId;
+  if (principalId !== null) query.principalId = principalId;
+  if (filters.since || filters.until) {
+    query.createdAt = {};
+    if (filters.since) query.createdAt.$gte = new Date(filters.since);
+    if (filters.until) query.createdAt.$lte = new Date(filters.until);
+  }
+
+  const [total, jobs] = await Promise.all([
+    Job.countDocuments(query),
+    Job.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+  ]);
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages: Math.ceil(total / limit),
+    jobs: jobs.map(describeJob),
+  };
+}
@@ -0,0 +1,258 @@
+import { Page, RecordLink, Table } from "../models/airtable.model";
+import { FieldKeyMode, loadFieldMaps, presentFields } from "./fields.service";
+import { NOT_DELETED } from "./tombstone.service";
+
+// Expansion stops at whichever limit is hit first
+export const MAX_EXPAND_DEPTH = 3;
+const MAX_EXPAND_RECORDS = 500;
+
+export type LinkDirection = "outgoing" | "incoming" | "both";
+
+interface LinkField {
+  id: string;
+  linkedTableId: string;
+}
+
+async function getLinkFields(tableId: string): Promise<LinkField[]> {
+  const table = await Table.findOne({ tableId }).select("fields").lean();
+
+  return (table?.fields || [])
+    .filter(
+      (f: any) => f.type === "multipleRecordLinks" && f.options?.linkedTableId
+    )
+    .map((f: any) => ({ id: f.id, linkedTableId: f.options.linkedTableId }));
+}
+
+// The REST API returns linked record ids, webhook payloads {id, name} objects
+function linkedIds(value: any): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((v) => (typeof v === "string" ? v : v?.id))
+    .filter((id): id is string => typeof id === "string");
+}
+
+function isDuplicateKeyOnly(err: any): boolean {
+  const writeErrors: any[] = err.writeErrors || [];
+  return writeErrors.length
+    ? writeErrors.every((e) => e.code === 11000)
+    : err.code === 11000;
+}
+
+/**
+ * Replaces the outgoing links of the given records (fields keyed by field
+ * id) with what their link fields currently hold.
+ */
+export async function syncRecordLinks(
+  baseId: string,
+  tableId: string,
+  connectionId: string,
+  records: { id: string; fields: any }[]
+): Promise<number> {
+  if (!records.length) return 0;
+
+  const linkFields = await getLinkFields(tableId);
+  const docs = records.flatMap((r) =>
+    linkFields.flatMap((field) =>
+      [...new Set(linkedIds(r.fields?.[field.id]))].map((toPageId) => ({
+        baseId,
+        fromTableId: tableId,
+        fromPageId: r.id,
+        fieldId: field.id,
+        toTableId: field.linkedTableId,
+        toPageId,
+        connectionId,
+      }))
+    )
+  );
+
+  await RecordLink.deleteMany({
+    baseId,
+    fromPageId: { $in: records.map((r) => r.id) },
+  });
+  if (docs.length) {
+    try {
+      await RecordLink.insertMany(docs, { ordered: false });
+    } catch (err: any) {
+      // A concurrent sync or rebuild inserted the same links in between;
+      // the rest of the batch still went in
+      if (!isDuplicateKeyOnly(err)) throw err;
+    }
+  }
+
+  return docs.length;
+}
+
+/**
+ * Rebuilds a table's links from its stored records, e.g. after a full sync
+ * or for records synced before links were tracked.
+ */
+export async function rebuildTableLinks(
+  baseId: string,
+  tableId: string,
+  connectionId: string
+): Promise<number> {
+  await RecordLink.deleteMany({ baseId, fromTableId: tableId });
+
+  const cursor = Page.find({ baseId, tableId, fieldKeys: "id", ...NOT_DELETED })
+    .select("pageId fields")
+    .lean()
+    .cursor();
+
+  let links = 0;
+  let batch: { id: string; fields: any }[] = [];
+
+  for await (const page of cursor) {
+    batch.push({ id: page.pageId, fields: page.fields });
+    if (batch.length === 500) {
+      links += await syncRecordLinks(baseId, tableId, connectionId, batch);
+      batch = [];
+    }
+  }
+  links += await syncRecordLinks(baseId, tableId, connectionId, batch);
+
+  return links;
+}
+
+/**
+ * Drops links from fields of a table that are no longer link fields (the
+ * field was deleted or converted to another type).
+ */
+export async function pruneTableLinks(
+  baseId: string,
+  tableId: string,
+  fields: any[] = []
+): Promise<number> {
+  const linkFieldIds = fields
+    .filter((f: any) => f.type === "multipleRecordLinks")
+    .map((f: any) => f.id);
+
+  const result = await RecordLink.deleteMany({
+    baseId,
+    fromTableId: tableId,
+    fieldId: { $nin: linkFieldIds },
+  });
+
+  return result.deletedCount;
+}
+
+// Links into or out of the given records, limited to `scope`
+function findLinks(pageIds: string[], direction: LinkDirection, scope: any) {
+  const match: any[] = [];
+  if (direction !== "incoming") match.push({ fromPageId: { $in: pageIds } });
+  if (direction !== "outgoing") match.push({ toPageId: { $in: pageIds } });
+
+  return RecordLink.find({ ...scope, $or: match })
+    .select("baseId fromTableId fromPageId fieldId toTableId toPageId")
+    .lean();
+}
+
+// Adds the link field's current name to each link
+async function nameLinks(links: any[]) {
+  const maps = await loadFieldMaps([
+    ...new Set(links.map((l) => l.fromTableId as string)),
+  ]);
+
+  return links.map(({ _id, ...link }) => ({
+    ...link,
+    fieldName: maps.get(link.fromTableId)?.idToName.get(link.fieldId),
+  }));
+}
+
+/**
+ * A record's links in one or both directions. Links to records that have
+ * since been deleted are left out.
+ */
+export async function getRecordLinks(
+  pageId: string,
+  direction: LinkDirection,
+  scope: any = {}
+) {
+  const links = await findLinks([pageId], direction, scope);
+  const otherIds = links.map((l) =>
+    l.fromPageId === pageId ? l.toPageId : l.fromPageId
+  );
+  const live = new Set(
+    await Page.distinct("pageId", {
+      ...scope,
+      pageId: { $in: otherIds },
+      ...NOT_DELETED,
+    })
+  );
+
+  const named = await nameLinks(
+    links.filter((l) =>
+      live.has(l.fromPageId === pageId ? l.toPageId : l.fromPageId)
+    )
+  );
+
+  return {
+    outgoing: named.filter((l) => l.fromPageId === pageId),
+    incoming: named.filter((l) => l.toPageId === pageId),
+  };
+}
+
+/**
+ * Breadth-first walk of the link graph from one record, returning every
+ * record reached within `depth` hops together with the links followed.
+ */
+export async function expandRecordLinks(
+  pageId: string,
+  options: {
+    depth: number;
+    direction: LinkDirection;
+    keys: FieldKeyMode;
+    scope?: any;
+  }
+) {
+  const scope = options.scope || {};
+  const depth = Math.min(Math.max(options.depth, 0), MAX_EXPAND_DEPTH);
+
+  const root = await Page.findOne({ ...scope, pageId, ...NOT_DELETED }).lean();
+  if (!root) return null;
+
+  const pages = new Map<string, any>([[pageId, root]]);
+  const links = new Map<string, any>();
+  let frontier = [pageId];
+  let truncated = false;
+
+  for (let level = 0; level < depth && frontier.length && !truncated; level++) {
+    const found = await findLinks(frontier, options.direction, scope);
+    const candidates = new Set<string>();
+
+    for (const link of found) {
+      for (const id of [link.fromPageId, link.toPageId]) {
+        if (!pages.has(id)) candidates.add(id);
+      }
+    }
+
+    const reached = await Page.find({
+      ...scope,
+      pageId: { $in: [...candidates] },
+      ...NOT_DELETED,
+    }).lean();
+
+    frontier = [];
+    for (const page of reached) {
+      if (pages.size >= MAX_EXPAND_RECORDS) {
+        truncated = true;
+        break;
+      }
+      pages.set(page.pageId, page);
+      frontier.push(page.pageId);
+    }
+
+    for (const link of found) {
+      if (pages.has(link.fromPageId) && pages.has(link.toPageId)) {
+        links.set(`${link.fromPageId}:${link.fieldId}:${link.toPageId}`, link);
+      }
+    }
+  }
+
+  return {
+    root: pageId,
+    depth,
+    truncated,
+    records: await presentFields([...pages.values()], options.keys),
+    links: await nameLinks([...links.values()]),
+  };
+}
@@ -0,0 +1,303 @@
+import { Page, Table } from "../models/airtable.model";
+import { NOT_DELETED } from "./tombstone.service";
+
+/**
+ * Typed values for a record's fields, keyed by field id like Page.fields:
+ *
+ * - dates and date-times → Date
+ * - numbers, currency, percent, ratings, durations → number rounded to the
+ *   field's precision (percent is kept as a fraction, like Airtable)
+ * - checkbox → boolean
+ * - single/multiple select → { id, name } (or an array of them)
+ * - collaborators, createdBy, lastModifiedBy → { id, email, name }
+ * - attachments → { id, filename, type, size, url } (the mirrored copy if any)
+ * - record links → array of record ids
+ * - formulas and rollups → normalized as their result type; lookups → an
+ *   array of the looked-up field's normalized values
+ * - everything else (text, url, email, phone, ...) → as Airtable sent it
+ */
+export type NormalizedFields = Record<string, any>;
+
+const NUMERIC_TYPES = [
+  "number",
+  "currency",
+  "percent",
+  "duration",
+  "rating",
+  "count",
+  "autoNumber",
+];
+const DATE_TYPES = ["date", "dateTime", "createdTime", "lastModifiedTime"];
+const COLLABORATOR_TYPES = [
+  "singleCollaborator",
+  "createdBy",
+  "lastModifiedBy",
+];
+
+function toDate(value: any): Date | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toNumber(value: any, type: string, options: any): number | null {
+  const number = typeof value === "number" ? value : parseFloat(value);
+  if (!isFinite(number)) return null;
+
+  if (typeof options?.precision !== "number") return number;
+
+  // Percent precision counts digits of the percentage, not the fraction
+  const digits = options.precision + (type === "percent" ? 2 : 0);
+  return Number(number.toFixed(digits));
+}
+
+function toCollaborator(value: any) {
+  if (!value || typeof value !== "object") return null;
+  return { id: value.id, email: value.email, name: value.name };
+}
+
+// The REST API sends the choice name, webhooks send { id, name, color }
+function toChoice(value: any, options: any) {
+  const name = typeof value === "string" ? value : value?.name;
+  if (typeof name !== "string") return null;
+
+  const choice = (options?.choices || []).find(
+    (c: any) => c.name === name || (value?.id && c.id === value.id)
+  );
+  return { id: choice?.id ?? value?.id ?? null, name };
+}
+
+function toAttachment(value: any) {
+  if (!value || typeof value !== "object") return null;
+  return {
+    id: value.id,
+    filename: value.filename,
+    type: value.type,
+    size: value.size,
+    url: value.mirroredUrl || value.url,
+  };
+}
+
+function asArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Webhook payloads send lookups grouped by linked record
+function lookupValues(value: any): any[] {
+  if (value && !Array.isArray(value) && value.valuesByLinkedRecordId) {
+    return (value.linkedRecordIds || []).flatMap((id: string) =>
+      asArray(value.valuesByLinkedRecordId[id])
+    );
+  }
+  return asArray(value);
+}
+
+function compact<T>(values: (T | null)[]): T[] {
+  return values.filter((v): v is T => v !== null);
+}
+
+/**
+ * Normalizes one cell value given its field's type and options (see
+ * NormalizedFields). Returns null for values that can't be read as the
+ * field's type, e.g. a formula error.
+ */
+export function normalizeValue(type: string, options: any, value: any): any {
+  if (value === undefined || value === null) return null;
+
+  // Formula errors come back as { error: "#ERROR!" } or { specialValue }
+  if (
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    (value.error || value.specialValue)
+  ) {
+    return null;
+  }
+
+  if (DATE_TYPES.includes(type)) return toDate(value);
+  if (NUMERIC_TYPES.includes(type)) return toNumber(value, type, options);
+  if (COLLABORATOR_TYPES.includes(type)) return toCollaborator(value);
+
+  switch (type) {
+    case "checkbox":
+      return value === true;
+    case "singleSelect":
+      return toChoice(value, options);
+    case "multipleSelects":
+      return compact(asArray(value).map((v) => toChoice(v, options)));
+    case "multipleCollaborators":
+      return compact(asArray(value).map(toCollaborator));
+    case "multipleAttachments":
+      return compact(asArray(value).map(toAttachment));
+    case "multipleRecordLinks":
+      return asArray(value)
+        .map((v) => (typeof v === "string" ? v : v?.id))
+        .filter((id) => typeof id === "string");
+    case "formula":
+    case "rollup": {
+      const result = options?.result;
+      if (!result?.type) return value;
+      // Array results (e.g. ARRAYJOIN-less rollups) normalize element-wise
+      return Array.isArray(value)
+        ? value.map((v) => normalizeValue(result.type, result.options, v))
+        : normalizeValue(result.type, result.options, value);
+    }
+    case "multipleLookupValues": {
+      const result = options?.result;
+      const values = lookupValues(value);
+      if (!result?.type) return values;
+      return values.flatMap((v) =>
+        asArray(normalizeValue(result.type, result.options, v))
+      );
+    }
+    case "barcode":
+      return value?.text ?? null;
+    case "button":
+      return value?.label ?? null;
+    case "aiText":
+      return value?.value ?? null;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Normalizes a record's field-id keyed values with the table schema.
+ * Fields the schema doesn't know are left out.
+ */
+export function normalizeFields(
+  schemaFields: any[] = [],
+  fields: any = {}
+): NormalizedFields {
+  const normalized: NormalizedFields = {};
+
+  for (const field of schemaFields) {
+    const value = normalizeValue(field.type, field.options, fields[field.id]);
+    if (value !== null && !(Array.isArray(value) && !value.length)) {
+      normalized[field.id] = value;
+    }
+  }
+
+  return normalized;
+}
+
+export async function getTableSchema(tableId: string): Promise<any[]> {
+  const table = await Table.findOne({ tableId }).select("fields").lean();
+  return table?.fields || [];
+}
+
+/**
+ * Recomputes normalizedFields for a table's stored records, e.g. after a
+ * full sync picked up field type changes. Leaves updatedAt alone: write
+ * conflict checks compare it, and the records themselves didn't change.
+ */
+export async function renormalizeTable(
+  baseId: string,
+  tableId: string
+): Promise<number> {
+  const schema = await getTableSchema(tableId);
+  const cursor = Page.find({ baseId, tableId, fieldKeys: "id", ...NOT_DELETED })
+    .select("pageId fields")
+    .lean()
+    .cursor();
+
+  let ops: any[] = [];
+  let count = 0;
+
+  for await (const page of cursor) {
+    ops.push({
+      updateOne: {
+        filter: { _id: page._id },
+        update: { normalizedFields: normalizeFields(schema, page.fields) },
+      },
+    });
+    if (ops.length === 500) {
+      await Page.bulkWrite(ops, { timestamps: false });
+      count += ops.length;
+      ops = [];
+    }
+  }
+  if (ops.length) {
+    await Page.bulkWrite(ops, { timestamps: false });
+    count += ops.length;
+  }
+
+  return count;
+}
+
+// Typed values for a query bound, matching how the field is normalized
+function coerceBound(field: any, value: any): any {
+  let type = field.type;
+  let options = field.options;
+
+  // Formulas, rollups and lookups compare as their result type
+  if (["formula", "rollup", "multipleLookupValues"].includes(type)) {
+    type = options?.result?.type;
+    options = options?.result?.options;
+  }
+
+  if (DATE_TYPES.includes(type)) return toDate(value);
+  if (NUMERIC_TYPES.includes(type)) return toNumber(value, type, undefined);
+  if (type === "checkbox") return value === "true" || value === true;
+  return value;
+}
+
+// Where a field's comparable value lives under normalizedFields
+function valuePath(field: any): string {
+  const base = `normalizedFields.${field.id}`;
+  const type =
+    field.type === "formula" ||
+    field.type === "rollup" ||
+    field.type === "multipleLookupValues"
+      ? field.options?.result?.type
+      : field.type;
+
+  if (type === "singleSelect" || type === "multipleSelects") {
+    return `${base}.name`;
+  }
+  if (COLLABORATOR_TYPES.includes(type) || type === "multipleCollaborators") {
+    return `${base}.email`;
+  }
+  return base;
+}
+
+/**
+ * Turns `{ field: { gte, lte, gt, lt, eq } }` range filters and a
+ * `field` / `-field` sort (fields by id or current name) into a Mongo
+ * filter and sort over normalizedFields. Throws UNKNOWN_FIELD for fields
+ * the table schema doesn't have.
+ */
+export async function buildNormalizedQuery(
+  tableId: string,
+  range: Record<string, any> = {},
+  sort?: string
+): Promise<{ filter: any; sort?: Record<string, 1 | -1> }> {
+  const schema = await getTableSchema(tableId);
+  const find = (key: string) => {
+    const field = schema.find((f: any) => f.id === key || f.name === key);
+    if (!field) throw new Error("UNKNOWN_FIELD");
+    return field;
+  };
+
+  const filter: any = {};
+  for (const [key, bounds] of Object.entries(range)) {
+    const field = find(key);
+    const condition: any = {};
+
+    for (const op of ["gte", "lte", "gt", "lt", "eq"]) {
+      if (bounds?.[op] === undefined) continue;
+      const bound = coerceBound(field, bounds[op]);
+      if (bound === null) throw new Error("INVALID_BOUND");
+      condition[`$${op}`] = bound;
+    }
+
+    filter[valuePath(field)] = condition;
+  }
+
+  if (!sort) return { filter };
+
+  const descending = sort.startsWith("-");
+  const field = find(descending ? sort.slice(1) : sort);
+
+  return { filter, sort: { [valuePath(field)]: descending ? -1 : 1 } };
+}
@@ -0,0 +1,173 @@
+import Bottleneck from "bottleneck";
+import { RateLimitWindow } from "../models/airtable.model";
+
+// 429s counted in /rate-limits are those within this window
+const RECENT_WINDOW_MS = 5 * 60 * 1000;
+
+interface RateLimitConfig {
+  basePerSecond: number;
+  baseConcurrency: number;
+  tokenPerSecond: number;
+  shared: boolean;
+}
+
+// Airtable allows 5 requests/second per base and 50 per token. Read lazily:
+// route modules load .env after their imports are evaluated
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    basePerSecond: Number(process.env.AIRTABLE_BASE_RPS) || 5,
+    baseConcurrency: Number(process.env.AIRTABLE_BASE_CONCURRENCY) || 3,
+    tokenPerSecond: Number(process.env.AIRTABLE_TOKEN_RPS) || 50,
+    shared: process.env.RATE_LIMIT_STORE === "mongo",
+  };
+}
+
+let groups: { bases: Bottleneck.Group; tokens: Bottleneck.Group } | null = null;
+
+// One limiter per base and one per token, shared by every AirtableService
+// in the process. Idle limiters are dropped by the group after a while
+function getGroups() {
+  if (!groups) {
+    const config = getRateLimitConfig();
+
+    groups = {
+      bases: new Bottleneck.Group({
+        minTime: Math.ceil(1000 / config.basePerSecond),
+        maxConcurrent: config.baseConcurrency,
+      }),
+      tokens: new Bottleneck.Group({
+        minTime: Math.ceil(1000 / config.tokenPerSecond),
+      }),
+    };
+  }
+
+  return groups;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Takes one request slot from a per-second budget kept in Mongo, so several
+ * server instances together stay under Airtable's limits. Waits for the
+ * next second when this one is used up.
+ */
+async function acquireSharedSlot(key: string, perSecond: number) {
+  for (;;) {
+    const now = Date.now();
+    const window = Math.floor(now / 1000);
+
+    try {
+      const slot = await RateLimitWindow.findOneAndUpdate(
+        { key, window },
+        {
+          $inc: { count: 1 },
+          $setOnInsert: { expiresAt: new Date(now + 60 * 1000) },
+        },
+        { upsert: true, new: true }
+      );
+
+      if (slot.count <= perSecond) return;
+    } catch (err: any) {
+      // Two instances created the same window at once; count again
+      if (err.code === 11000) continue;
+      throw err;
+    }
+
+    await sleep((window + 1) * 1000 - now + Math.random() * 50);
+  }
+}
+
+/**
+ * Runs an Airtable request within the base's and the token's limits.
+ * Requests that aren't about one base (e.g. /meta/bases) only count
+ * against the token.
+ */
+export function scheduleAirtableRequest<T>(
+  connectionId: string,
+  baseId: string | null,
+  fn: () => Promise<T>
+): Promise<T> {
+  const config = getRateLimitConfig();
+  const { bases, tokens } = getGroups();
+
+  const withToken = () =>
+    tokens.key(connectionId).schedule(async () => {
+      if (config.shared) {
+        await acquireSharedSlot(`token:${connectionId}`, config.tokenPerSecond);
+        if (baseId) {
+          await acquireSharedSlot(`base:${baseId}`, config.basePerSecond);
+        }
+      }
+      return fn();
+    });
+
+  return baseId ? bases.key(baseId).schedule(withToken) : withToken();
+}
+
+const rateLimitHits = {
+  bases: new Map<string, number[]>(),
+  tokens: new Map<string, number[]>(),
+};
+
+function pushHit(map: Map<string, number[]>, key: string, at: number) {
+  const recent = (map.get(key) || []).filter((t) => t > at - RECENT_WINDOW_MS);
+  recent.push(at);
+  map.set(key, recent);
+}
+
+/**
+ * Notes a 429 from Airtable for /rate-limits.
+ */
+export function recordRateLimitHit(
+  connectionId: string,
+  baseId: string | null
+) {
+  const at = Date.now();
+  pushHit(rateLimitHits.tokens, connectionId, at);
+  if (baseId) pushHit(rateLimitHits.bases, baseId, at);
+}
+
+function describeKeys(group: Bottleneck.Group, hits: Map<string, number[]>) {
+  const cutoff = Date.now() - RECENT_WINDOW_MS;
+  const keys = new Set([...group.keys(), ...hits.keys()]);
+
+  return [...keys].map((key) => {
+    const counts = group
+      .limiters()
+      .find((l) => l.key === key)
+      ?.limiter.counts();
+    const recent = (hits.get(key) || []).filter((t) => t > cutoff);
+    if (!recent.length) hits.delete(key);
+
+    return {
+      key,
+      queued: (counts?.RECEIVED || 0) + (counts?.QUEUED || 0),
+      running: (counts?.RUNNING || 0) + (counts?.EXECUTING || 0),
+      recent429s: recent.length,
+      last429At: recent.length
+        ? new Date(recent[recent.length - 1]).toISOString()
+        : null,
+    };
+  });
+}
+
+/**
+ * Queue depth and recent 429s of this process's limiters.
+ */
+export function getRateLimitStats() {
+  const config = getRateLimitConfig();
+  const { bases, tokens } = getGroups();
+
+  return {
+    config,
+    recentWindowSeconds: RECENT_WINDOW_MS / 1000,
+    bases: describeKeys(bases, rateLimitHits.bases).map(({ key, ...s }) => ({
+      baseId: key,
+      ...s,
+    })),
+    tokens: describeKeys(tokens, rateLimitHits.tokens).map(({ key, ...s }) => ({
+      connectionId: key,
+      ...s,
+    })),
+  };
+}
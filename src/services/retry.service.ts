@@ -0,0 +1,116 @@
+// Network failures worth another attempt (axios and Node error codes)
+const RETRYABLE_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "ERR_NETWORK",
+  "ERR_SOCKET_CONNECTION_TIMEOUT",
+];
+
+export interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+  maxElapsedMs: number;
+}
+
+// Read lazily: route modules load .env after their imports are evaluated
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    baseDelayMs: Number(process.env.AIRTABLE_RETRY_BASE_MS) || 500,
+    maxDelayMs: Number(process.env.AIRTABLE_RETRY_MAX_DELAY_MS) || 30 * 1000,
+    maxAttempts: Number(process.env.AIRTABLE_RETRY_MAX_ATTEMPTS) || 8,
+    maxElapsedMs:
+      Number(process.env.AIRTABLE_RETRY_MAX_ELAPSED_MS) || 2 * 60 * 1000,
+  };
+}
+
+function statusOf(err: any): number | undefined {
+  return err?.response?.status ?? err?.statusCode;
+}
+
+/**
+ * Rate limits, server errors and dropped connections are retried; other
+ * 4xx responses (bad request, permissions, not found) would fail again.
+ * Requests that aren't idempotent (record creation) are only retried when
+ * Airtable certainly didn't act on them: a 429 or a refused connection.
+ */
+export function isRetryable(err: any, idempotent = true): boolean {
+  const status = statusOf(err);
+
+  if (status === 429) return true;
+  if (!idempotent) return err?.code === "ECONNREFUSED";
+  if (status === 408) return true;
+  if (status !== undefined) return status >= 500;
+
+  return RETRYABLE_CODES.includes(err?.code);
+}
+
+export function isRateLimited(err: any): boolean {
+  return statusOf(err) === 429;
+}
+
+/**
+ * The wait Airtable asked for in Retry-After (seconds or an HTTP date), if
+ * any.
+ */
+export function retryAfterMs(err: any): number | null {
+  const header = err?.response?.headers?.["retry-after"];
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter; Airtable's 429 penalty is 30s, so
+// Retry-After wins when it asks for longer
+function delayFor(attempt: number, err: any, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  const backoff = Math.random() * ceiling;
+  const requested = retryAfterMs(err);
+
+  return requested === null ? backoff : Math.max(requested, backoff);
+}
+
+/**
+ * Runs `request` until it succeeds, fails with a non-retryable error, runs
+ * out of attempts or would exceed the policy's max elapsed time.
+ * `onRetry` is told about every retry before its wait.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: {
+    idempotent?: boolean;
+    onRetry?: (info: { attempt: number; delayMs: number; error: any }) => void;
+    policy?: RetryPolicy;
+  } = {}
+): Promise<T> {
+  const { idempotent = true, onRetry, policy = getRetryPolicy() } = options;
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error: any) {
+      if (!isRetryable(error, idempotent) || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+
+      const delayMs = delayFor(attempt, error, policy);
+      if (Date.now() - startedAt + delayMs > policy.maxElapsedMs) throw error;
+
+      onRetry?.({ attempt, delayMs, error });
+      await new Promise((r) => setTimeout(r, delayMs));
+    }
+  }
+}
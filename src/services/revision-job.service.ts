@@ -0,0 +1,42 @@
+import { enqueueJob, registerJobHandler } from "./job.service";
+import { RevisionFetchProgress, ScrapingService } from "./scraping.service";
+
+export const REVISION_FETCH_JOB = "revision-fetch";
+
+/**
+ * Queues a revision history scrape over the given bases (null: all).
+ * Only one is queued or running at a time.
+ */
+export function startRevisionFetchJob(input: {
+  batchSize: number;
+  baseIds: string[] | null;
+  principalId?: string;
+}) {
+  return enqueueJob({
+    type: REVISION_FETCH_JOB,
+    key: "all",
+    principalId: input.principalId,
+    params: { batchSize: input.batchSize, baseIds: input.baseIds },
+  });
+}
+
+// A reclaimed job continues after the last batch its previous worker saved
+registerJobHandler(REVISION_FETCH_JOB, async ({ job, progress }) => {
+  const { batchSize = 5, baseIds = null } = job.params || {};
+  const resumeFrom: RevisionFetchProgress | undefined = job.progress?.lastPageId
+    ? job.progress
+    : undefined;
+  let latest = resumeFrom;
+
+  await new ScrapingService().fetchAllRevisionHistory(
+    batchSize,
+    baseIds,
+    async (update) => {
+      latest = update;
+      await progress(update);
+    },
+    resumeFrom
+  );
+
+  return latest || null;
+});
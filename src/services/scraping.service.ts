@@ -3,10 +3,31 @@ import * as cheerio from "cheerio";
 import puppeteer from "puppeteer-extra";
 import StealthPlugin from "puppeteer-extra-plugin-stealth";
 import { Browser, Page as PuppeteerPage } from "puppeteer";
-import { CookieStore, RevisionHistory, Page } from "../models/airtable.model";
+import {
+  CookieStore,
+  ICookieStore,
+  RevisionHistory,
+  Page,
+} from "../models/airtable.model";
+import { decryptValue, encryptValue } from "./crypto.service";
+import { NOT_DELETED } from "./tombstone.service";
 
 puppeteer.use(StealthPlugin());
 
+// Reported after each batch of fetchAllRevisionHistory; lastPageId is the
+// checkpoint a resumed run continues after
+export interface RevisionFetchProgress {
+  processed: number;
+  total: number;
+  withHistory: number;
+  withoutHistory: number;
+  updated: number;
+  newPages: number;
+  errors: number;
+  percentage: number;
+  lastPageId?: string;
+}
+
 export class ScrapingService {
   private airtableBaseUrl = "https://airtable.com";
   private browser: Browser | null = null;
@@ -18,10 +39,13 @@ export class ScrapingService {
     mfaRequired: boolean,
     isValid: boolean = true
   ): Promise<void> {
+    const encrypted = encryptValue(cookieString);
+
     await CookieStore.findOneAndUpdate(
       {},
       {
-        cookies: cookieString,
+        cookies: encrypted.ciphertext,
+        cookiesKeyId: encrypted.keyId,
         isValid: isValid,
         lastValidated: new Date(),
         mfaRequired: mfaRequired,
@@ -32,10 +56,14 @@ export class ScrapingService {
     console.log("[StoreCookies] Cookies stored in database");
   }
 
+  private readCookies(cookieStore: ICookieStore): string {
+    return decryptValue(cookieStore.cookies, cookieStore.cookiesKeyId);
+  }
+
   async getStoredCookies(): Promise<string | null> {
     try {
       const cookieStore = await CookieStore.findOne().sort({ updatedAt: -1 });
-      return cookieStore?.cookies || null;
+      return cookieStore?.cookies ? this.readCookies(cookieStore) : null;
     } catch (error) {
       console.error("[GetStoredCookies] Error:", error);
       return null;
@@ -46,20 +74,21 @@ export class ScrapingService {
     const cookieStore = await CookieStore.findOne().sort({ updatedAt: -1 });
 
     if (cookieStore && cookieStore.isValid) {
+      const cookies = this.readCookies(cookieStore);
       const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
 
       if (cookieStore.lastValidated > fiveMinutesAgo) {
         console.log(
           "[GetOrExtractCookies] Using cached cookies (validated recently)"
         );
-        return cookieStore.cookies;
+        return cookies;
       }
 
       console.log("[GetOrExtractCookies] Re-validating cached cookies...");
-      const isValid = await this.validateCookies(cookieStore.cookies);
+      const isValid = await this.validateCookies(cookies);
 
       if (isValid) {
-        return cookieStore.cookies;
+        return cookies;
       } else {
         console.log("[GetOrExtractCookies] Cached cookies expired");
       }
@@ -1153,7 +1182,11 @@ export class ScrapingService {
 
   async fetchAllRevisionHistory(
     batchSize: number = 5,
-    progressCallback?: (progress: any) => void
+    baseIds: string[] | null = null,
+    progressCallback?: (
+      progress: RevisionFetchProgress
+    ) => void | Promise<void>,
+    resumeFrom?: RevisionFetchProgress
   ): Promise<void> {
     try {
       const cookies = await this.getOrExtractCookies();
@@ -1167,7 +1200,12 @@ export class ScrapingService {
         );
       }
 
-      const allPages = await Page.find();
+      // Tombstoned records no longer exist in Airtable. Sorted so a resumed
+      // run can skip everything up to its checkpoint
+      const allPages = await Page.find({
+        ...NOT_DELETED,
+        ...(baseIds !== null && { baseId: { $in: baseIds } }),
+      }).sort({ pageId: 1 });
       const totalPagesInDB = allPages.length;
       console.log(
         `[FetchAllRevisions] Total pages in database: ${totalPagesInDB}`
@@ -1207,18 +1245,28 @@ export class ScrapingService {
         return;
       }
 
-      let processed = 0;
-      let withHistory = 0;
-      let withoutHistory = 0;
-      let updated = 0;
-      let newPages = 0;
-      let errors = 0;
+      let processed = resumeFrom?.processed || 0;
+      let withHistory = resumeFrom?.withHistory || 0;
+      let withoutHistory = resumeFrom?.withoutHistory || 0;
+      let updated = resumeFrom?.updated || 0;
+      let newPages = resumeFrom?.newPages || 0;
+      let errors = resumeFrom?.errors || 0;
       const failedPages: Array<{ pageId: string; error: string }> = [];
 
-      for (let i = 0; i < pagesToProcess.length; i += batchSize) {
-        const batch = pagesToProcess.slice(i, i + batchSize);
+      const remaining = resumeFrom?.lastPageId
+        ? pagesToProcess.filter((p) => p.pageId > resumeFrom.lastPageId!)
+        : pagesToProcess;
+
+      if (resumeFrom?.lastPageId) {
+        console.log(
+          `[FetchAllRevisions] Resuming after ${resumeFrom.lastPageId}: ${remaining.length} pages left`
+        );
+      }
+
+      for (let i = 0; i < remaining.length; i += batchSize) {
+        const batch = remaining.slice(i, i + batchSize);
         const batchNumber = Math.floor(i / batchSize) + 1;
-        const totalBatches = Math.ceil(pagesToProcess.length / batchSize);
+        const totalBatches = Math.ceil(remaining.length / batchSize);
 
         console.log(
           `[FetchAllRevisions] ----------------------------------------`
@@ -1422,7 +1470,7 @@ export class ScrapingService {
           }
         }
 
-        const progress = {
+        const progress: RevisionFetchProgress = {
           processed,
           total: pagesToProcess.length,
           withHistory,
@@ -1431,6 +1479,7 @@ export class ScrapingService {
           newPages,
           errors,
           percentage: Math.round((processed / pagesToProcess.length) * 100),
+          lastPageId: batch[batch.length - 1].pageId,
         };
 
         console.log(
@@ -1438,12 +1487,12 @@ export class ScrapingService {
             `(${newPages} new, ${updated} updated, ${withoutHistory} no history, ${errors} errors)`
         );
 
-        // Call progress callback
+        // Call progress callback; it may stop the run by throwing
         if (progressCallback) {
-          progressCallback(progress);
+          await progressCallback(progress);
         }
 
-        if (i + batchSize < pagesToProcess.length) {
+        if (i + batchSize < remaining.length) {
           const delayTime = this.requestDelay + Math.random() * 500;
           console.log(
             `[FetchAllRevisions]   Waiting ${delayTime.toFixed(
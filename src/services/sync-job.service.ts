@@ -0,0 +1,206 @@
+import {
+  AirtableService,
+  SyncOptions,
+  SyncProgressEvent,
+} from "./airtable.service";
+import { enqueueJob, JobContext, registerJobHandler } from "./job.service";
+import { SyncConcurrency } from "./work-queue.service";
+import { failAbandonedSyncRuns } from "./sync-run.service";
+
+export type SyncJobType = "sync-all" | "sync-base" | "sync-table";
+
+interface SyncJobTable {
+  tableId: string;
+  name?: string;
+  status: "pending" | "succeeded" | "failed";
+  records: number;
+  durationMs?: number;
+}
+
+interface SyncJobBase {
+  baseId: string;
+  name?: string;
+  status: "pending" | "running" | "succeeded" | "partial" | "failed";
+  tables: SyncJobTable[];
+}
+
+export interface SyncJobParams {
+  baseId?: string;
+  tableId?: string;
+  minPermissionLevel?: string;
+  full?: boolean;
+  comments?: boolean;
+  attachments?: boolean;
+  concurrency?: Partial<SyncConcurrency>;
+}
+
+function applyProgress(
+  job: { bases: SyncJobBase[] },
+  event: SyncProgressEvent
+) {
+  const baseOf = (baseId: string) => job.bases.find((b) => b.baseId === baseId);
+
+  switch (event.type) {
+    case "bases":
+      job.bases = event.bases.map((b) => ({
+        baseId: b.id,
+        name: b.name,
+        status: "pending",
+        tables: [],
+      }));
+      break;
+    case "tables": {
+      const base = baseOf(event.baseId);
+      if (!base) break;
+      base.status = "running";
+      base.tables = event.tables.map((t) => ({
+        tableId: t.id,
+        name: t.name,
+        status: "pending",
+        records: 0,
+      }));
+      break;
+    }
+    case "table": {
+      const table = baseOf(event.baseId)?.tables.find(
+        (t) => t.tableId === event.table.tableId
+      );
+      if (!table) break;
+      table.status = event.table.status === "failed" ? "failed" : "succeeded";
+      table.records = event.table.records;
+      table.durationMs = event.table.durationMs;
+      break;
+    }
+    case "base": {
+      const base = baseOf(event.base.baseId);
+      if (base) base.status = event.base.status;
+      break;
+    }
+  }
+}
+
+/**
+ * Queues a sync for the connection. Only one sync per type, connection and
+ * scope (base/table) is queued or running at a time: if there is one
+ * already, it's returned with `alreadyRunning` set.
+ */
+export function startSyncJob(input: {
+  type: SyncJobType;
+  connectionId: string;
+  principalId?: string;
+  params: SyncJobParams;
+}) {
+  const { baseId = "", tableId = "" } = input.params;
+
+  return enqueueJob({
+    ...input,
+    key: [input.connectionId, baseId, tableId].join(":"),
+  });
+}
+
+/**
+ * Progress in the shape of GET /api/scraping/job-status/:jobId, counting
+ * tables. Each base counts equally towards the percentage, so it moves
+ * before every base has listed its tables.
+ */
+function summarizeProgress(bases: SyncJobBase[]) {
+  const tables = bases.flatMap((b) => b.tables);
+  const done = (list: SyncJobTable[]) =>
+    list.filter((t) => t.status !== "pending").length;
+
+  const baseShare = (b: SyncJobBase) => {
+    if (!["pending", "running"].includes(b.status)) return 1;
+    return b.tables.length ? done(b.tables) / b.tables.length : 0;
+  };
+
+  return {
+    total: tables.length,
+    processed: done(tables),
+    errors:
+      tables.filter((t) => t.status === "failed").length +
+      bases.filter((b) => b.status === "failed").length,
+    percentage: bases.length
+      ? Math.round(
+          (100 * bases.reduce((a, b) => a + baseShare(b), 0)) / bases.length
+        )
+      : 0,
+    bases: bases.map((b) => ({
+      baseId: b.baseId,
+      name: b.name,
+      status: b.status,
+      total: b.tables.length,
+      processed: done(b.tables),
+      tables: b.tables,
+    })),
+  };
+}
+
+async function runSyncJob(type: SyncJobType, { job, progress }: JobContext) {
+  const params: SyncJobParams = job.params || {};
+  const service = new AirtableService(job.connectionId!);
+  const state = { bases: [] as SyncJobBase[] };
+  const jobId = String(job._id);
+
+  // A reclaimed job starts over; its earlier attempt's run never finished
+  if (job.attempts > 1) await failAbandonedSyncRuns(jobId);
+
+  // A sync can't stop halfway, so a lost lease only stops progress updates
+  const options: SyncOptions = {
+    full: params.full,
+    comments: params.comments,
+    attachments: params.attachments,
+    concurrency: params.concurrency,
+    trigger: "job",
+    principalId: job.principalId,
+    jobId,
+    onProgress: (event) => {
+      applyProgress(state, event);
+      progress(summarizeProgress(state.bases)).catch(() => undefined);
+    },
+  };
+
+  switch (type) {
+    case "sync-all": {
+      const data = await service.fetchAllDataParallel({
+        ...options,
+        minPermissionLevel: params.minPermissionLevel,
+      });
+      return {
+        runId: data.runId,
+        status: data.status,
+        durationSeconds: data.durationSeconds,
+        stats: data.stats,
+        userStats: data.userStats,
+      };
+    }
+    case "sync-base": {
+      const result = await service.syncBase(params.baseId!, options);
+      return {
+        runId: result.runId,
+        status: result.status,
+        stats: result.stats,
+      };
+    }
+    case "sync-table": {
+      const result = await service.syncTable(
+        params.baseId!,
+        params.tableId!,
+        options
+      );
+      return {
+        runId: result.runId,
+        status: result.status,
+        stats: result.stats,
+        mode: result.table.mode,
+      };
+    }
+  }
+}
+
+for (const type of ["sync-all", "sync-base", "sync-table"] as const) {
+  registerJobHandler(
+    type,
+    (context) => runSyncJob(type, context),
+    (job) => failAbandonedSyncRuns(String(job._id))
+  );
+}
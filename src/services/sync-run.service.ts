@@ -0,0 +1,247 @@
+import {
+  ISyncBaseResult,
+  ISyncError,
+  ISyncTableResult,
+  SyncRun,
+  SyncRunStatus,
+} from "../models/airtable.model";
+
+export interface SyncRunInput {
+  trigger: "api" | "job";
+  connectionId: string;
+  principalId?: string;
+  jobId?: string;
+  options?: any;
+}
+
+/**
+ * Turns an axios or plain error into what a SyncRun stores.
+ * Stacks are kept only for errors that aren't HTTP responses, which are
+ * the unexpected ones.
+ */
+export function describeError(
+  err: any,
+  where: { stage: string; baseId?: string; tableId?: string }
+): ISyncError {
+  const status: number | undefined =
+    err?.response?.status ?? err?.statusCode ?? undefined;
+
+  return {
+    ...where,
+    message: err?.response?.data?.error?.message || err?.message || String(err),
+    status,
+    code: err?.response?.data?.error?.type || err?.error || err?.code,
+    stack: status ? undefined : err?.stack,
+    at: new Date(),
+  };
+}
+
+// Totals over per-base results, and the run status they add up to
+export function summarizeBases(bases: ISyncBaseResult[]) {
+  const tables = bases.flatMap((b) => b.tables);
+  const sum = (key: keyof ISyncTableResult) =>
+    tables.reduce((a, t) => a + ((t[key] as number) || 0), 0);
+
+  const failedBases = bases.filter((b) => b.status === "failed").length;
+  const partialBases = bases.filter((b) => b.status === "partial").length;
+
+  const status: SyncRunStatus =
+    bases.length && failedBases === bases.length
+      ? "failed"
+      : failedBases || partialBases
+      ? "partial"
+      : "succeeded";
+
+  return {
+    status,
+    stats: {
+      bases: bases.length,
+      failedBases,
+      partialBases,
+      tables: tables.length,
+      records: sum("records"),
+      created: sum("created"),
+      updated: sum("updated"),
+      unchanged: sum("unchanged"),
+      deleted: sum("deleted"),
+      comments: sum("comments"),
+      attachments: sum("attachments"),
+    },
+  };
+}
+
+// Run bookkeeping must never break the sync it observes
+async function safely(action: string, fn: () => Promise<unknown>) {
+  try {
+    await fn();
+  } catch (err: any) {
+    console.error(`[SyncRun] Failed to ${action}:`, err.message);
+  }
+}
+
+export async function startSyncRun(input: SyncRunInput) {
+  return SyncRun.create({ ...input, status: "running", startedAt: new Date() });
+}
+
+/**
+ * Fails a job's runs that are still marked running. Called when the job is
+ * claimed, so runs left behind by a worker that died don't stay "running"
+ * forever.
+ */
+export function failAbandonedSyncRuns(jobId: string) {
+  const finishedAt = new Date();
+
+  return safely("fail abandoned runs", () =>
+    SyncRun.updateMany({ jobId, status: "running" }, [
+      {
+        $set: {
+          status: "failed",
+          finishedAt,
+          durationMs: { $subtract: [finishedAt, "$startedAt"] },
+          failures: {
+            $concatArrays: [
+              "$failures",
+              [
+                {
+                  stage: "job",
+                  message: "The worker running this sync stopped",
+                  at: finishedAt,
+                },
+              ],
+            ],
+          },
+        },
+      },
+    ])
+  );
+}
+
+export function recordBaseResult(
+  runId: string,
+  base: ISyncBaseResult,
+  failures: ISyncError[]
+) {
+  return safely("record base result", () =>
+    SyncRun.updateOne(
+      { _id: runId },
+      { $push: { bases: base, failures: { $each: failures } } }
+    )
+  );
+}
+
+export function finishSyncRun(
+  runId: string,
+  startedAt: Date,
+  update: {
+    status: SyncRunStatus;
+    stats?: any;
+    apiCalls: number;
+    retries: number;
+    failures?: ISyncError[];
+  }
+) {
+  const finishedAt = new Date();
+  const { failures = [], ...fields } = update;
+
+  return safely("finish run", () =>
+    SyncRun.updateOne(
+      { _id: runId },
+      {
+        ...fields,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        $push: { failures: { $each: failures } },
+      }
+    )
+  );
+}
+
+// Non-admins only see runs, and the bases within them, they can read
+function scopeRuns(baseIds: string[] | null) {
+  return baseIds === null ? {} : { "bases.baseId": { $in: baseIds } };
+}
+
+// Totals and options cover the whole run, so a scoped caller gets totals
+// over the bases they can see, and no options
+function visibleBases(run: any, baseIds: string[] | null) {
+  if (baseIds === null) return run;
+
+  const { options, ...rest } = run;
+  const bases = run.bases.filter((b: any) => baseIds.includes(b.baseId));
+
+  return {
+    ...rest,
+    bases,
+    stats: run.stats && summarizeBases(bases).stats,
+    failures: (run.failures || []).filter(
+      (f: any) => !f.baseId || baseIds.includes(f.baseId)
+    ),
+  };
+}
+
+/**
+ * Runs newest first, without the per-base breakdown and errors. `baseIds`
+ * limits them, and their stats, to the caller's bases (null: no limit).
+ */
+export async function listSyncRuns(
+  filters: {
+    status?: string;
+    trigger?: string;
+    connectionId?: string;
+    baseId?: string;
+    since?: string;
+    until?: string;
+    page?: number;
+    limit?: number;
+  },
+  baseIds: string[] | null
+) {
+  const page = Math.max(1, filters.page || 1);
+  const limit = Math.min(200, Math.max(1, filters.limit || 50));
+  const query: any = scopeRuns(baseIds);
+
+  if (filters.status) query.status = filters.status;
+  if (filters.trigger) query.trigger = filters.trigger;
+  if (filters.connectionId) query.connectionId = filters.connectionId;
+  if (filters.baseId) {
+    query["bases.baseId"] =
+      baseIds === null || baseIds.includes(filters.baseId)
+        ? filters.baseId
+        : { $in: [] };
+  }
+  if (filters.since || filters.until) {
+    query.startedAt = {};
+    if (filters.since) query.startedAt.$gte = new Date(filters.since);
+    if (filters.until) query.startedAt.$lte = new Date(filters.until);
+  }
+
+  const [total, runs] = await Promise.all([
+    SyncRun.countDocuments(query),
+    SyncRun.find(query)
+      // Scoped stats are recomputed from the bases
+      .select(baseIds === null ? "-bases -failures" : "-failures")
+      .sort({ startedAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+  ]);
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages: Math.ceil(total / limit),
+    runs:
+      baseIds === null
+        ? runs
+        : runs.map((run) => {
+            const { bases, failures, ...summary } = visibleBases(run, baseIds);
+            return summary;
+          }),
+  };
+}
+
+export async function getSyncRun(id: string, baseIds: string[] | null) {
+  const run = await SyncRun.findOne({ _id: id, ...scopeRuns(baseIds) }).lean();
+  return run ? visibleBases(run, baseIds) : null;
+}
@@ -0,0 +1,251 @@
+import axios from "axios";
+import { IOAuthToken, OAuthToken } from "../models/airtable.model";
+import { decryptValue, encryptValue } from "./crypto.service";
+import { recordAuthEvent } from "./audit.service";
+
+const TOKEN_URL = "https://airtable.com/oauth2/v1/token";
+const REVOKE_URL = "https://airtable.com/oauth2/v1/revoke";
+
+// Refresh this long before expiresAt so in-flight requests never carry a
+// token that dies on the wire
+const REFRESH_SKEW_MS = 5 * 60 * 1000;
+
+export const TOKEN_ERRORS = [
+  "NOT_AUTHENTICATED",
+  "NO_REFRESH_TOKEN",
+  "TOKEN_REFRESH_FAILED",
+  "PAT_REJECTED",
+];
+
+export function isTokenError(error: any): boolean {
+  return TOKEN_ERRORS.includes(error?.message);
+}
+
+function postClientForm(url: string, params: Record<string, string>) {
+  const clientId = process.env.AIRTABLE_CLIENT_ID || "";
+  const clientSecret = process.env.AIRTABLE_CLIENT_SECRET || "";
+
+  return axios.post(
+    url,
+    new URLSearchParams({ ...params, client_id: clientId }).toString(),
+    {
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        ...(clientSecret && {
+          Authorization: `Basic ${Buffer.from(
+            `${clientId}:${clientSecret}`
+          ).toString("base64")}`,
+        }),
+      },
+    }
+  );
+}
+
+/**
+ * POSTs to Airtable's token endpoint (authorization_code or refresh_token
+ * grant), adding Basic auth when a client secret is configured.
+ */
+export async function requestToken(params: Record<string, string>) {
+  const response = await postClientForm(TOKEN_URL, params);
+
+  return response.data as {
+    access_token: string;
+    refresh_token?: string;
+    expires_in: number;
+    scope?: string;
+  };
+}
+
+/**
+ * Encrypts a token pair into the OAuthToken fields that store it. An empty
+ * refresh token stays empty so "no refresh token" is still detectable.
+ */
+export function encryptTokenFields(accessToken: string, refreshToken: string) {
+  const access = encryptValue(accessToken);
+  const refresh = refreshToken ? encryptValue(refreshToken) : null;
+
+  return {
+    accessToken: access.ciphertext,
+    accessTokenKeyId: access.keyId,
+    refreshToken: refresh ? refresh.ciphertext : "",
+    refreshTokenKeyId: refresh ? refresh.keyId : undefined,
+  };
+}
+
+export type RevocationResult = "revoked" | "failed" | "not_supported";
+
+/**
+ * Revokes a connection's tokens at Airtable (RFC 7009). The refresh token
+ * goes first since revoking it invalidates the whole grant. PATs can only be
+ * revoked by their owner in Airtable's UI, so they report "not_supported".
+ */
+export async function revokeTokens(
+  token: IOAuthToken
+): Promise<{ result: RevocationResult; error?: string }> {
+  if (token.credentialType === "pat") {
+    return { result: "not_supported" };
+  }
+
+  const candidates: [string, string][] = [
+    ["refresh_token", readRefreshToken(token)],
+    ["access_token", readAccessToken(token)],
+  ];
+
+  try {
+    for (const [hint, value] of candidates) {
+      if (!value) continue;
+      await postClientForm(REVOKE_URL, {
+        token: value,
+        token_type_hint: hint,
+      });
+    }
+    return { result: "revoked" };
+  } catch (err: any) {
+    const error = err.response?.data?.error || err.message;
+    console.error(
+      `[TokenProvider] Revocation failed for ${token.connectionId}:`,
+      error
+    );
+    return { result: "failed", error };
+  }
+}
+
+function readAccessToken(token: IOAuthToken): string {
+  return decryptValue(token.accessToken, token.accessTokenKeyId);
+}
+
+function readRefreshToken(token: IOAuthToken): string {
+  return token.refreshToken
+    ? decryptValue(token.refreshToken, token.refreshTokenKeyId)
+    : "";
+}
+
+export class TokenProvider {
+  private inflight = new Map<string, Promise<string>>();
+
+  /**
+   * Returns a usable access token for the connection, refreshing it first
+   * when it is within REFRESH_SKEW_MS of expiry.
+   */
+  async getAccessToken(connectionId: string): Promise<string> {
+    const token = await OAuthToken.findOne({ connectionId });
+
+    if (!token || !token.accessToken) {
+      throw new Error("NOT_AUTHENTICATED");
+    }
+
+    const accessToken = readAccessToken(token);
+
+    // PATs don't expire on a schedule; they only stop working when revoked
+    if (
+      token.credentialType === "pat" ||
+      (token.expiresAt &&
+        token.expiresAt.getTime() - Date.now() > REFRESH_SKEW_MS)
+    ) {
+      return accessToken;
+    }
+
+    console.log(`[TokenProvider] ${connectionId} near expiry, refreshing`);
+    return this.refresh(connectionId, accessToken);
+  }
+
+  /**
+   * Refreshes the connection's token. Concurrent callers share one in-flight
+   * request so the rotating refresh token is only spent once. Passing the
+   * token that just failed lets a late caller reuse a refresh that already
+   * happened instead of starting another.
+   */
+  refresh(connectionId: string, staleToken?: string): Promise<string> {
+    const pending = this.inflight.get(connectionId);
+    if (pending) return pending;
+
+    const promise = this.doRefresh(connectionId, staleToken).finally(() =>
+      this.inflight.delete(connectionId)
+    );
+    this.inflight.set(connectionId, promise);
+
+    return promise;
+  }
+
+  private async doRefresh(
+    connectionId: string,
+    staleToken?: string
+  ): Promise<string> {
+    const token = await OAuthToken.findOne({ connectionId });
+
+    if (!token) {
+      throw new Error("NOT_AUTHENTICATED");
+    }
+
+    const currentToken = readAccessToken(token);
+
+    if (token.credentialType === "pat") {
+      // A PAT can be re-registered while a sync runs; otherwise a 401 means
+      // it was revoked and there is nothing to refresh
+      if (staleToken && currentToken !== staleToken) return currentToken;
+      throw new Error("PAT_REJECTED");
+    }
+
+    if (
+      staleToken &&
+      currentToken !== staleToken &&
+      token.expiresAt &&
+      token.expiresAt.getTime() - Date.now() > REFRESH_SKEW_MS
+    ) {
+      console.log(`[TokenProvider] ${connectionId} already refreshed`);
+      return currentToken;
+    }
+
+    const refreshToken = readRefreshToken(token);
+
+    if (!refreshToken) {
+      await recordAuthEvent({
+        type: "refresh",
+        outcome: "failure",
+        reason: "no_refresh_token",
+        connectionId,
+      });
+      throw new Error("NO_REFRESH_TOKEN");
+    }
+
+    try {
+      const { access_token, refresh_token, expires_in } = await requestToken({
+        grant_type: "refresh_token",
+        refresh_token: refreshToken,
+      });
+
+      const expiresAt = new Date(Date.now() + expires_in * 1000);
+
+      await OAuthToken.findByIdAndUpdate(token._id, {
+        ...encryptTokenFields(access_token, refresh_token || refreshToken),
+        expiresAt,
+        updatedAt: new Date(),
+      });
+
+      console.log(
+        `[TokenProvider] ${connectionId} refreshed, expires at ${expiresAt.toISOString()}`
+      );
+      await recordAuthEvent({
+        type: "refresh",
+        outcome: "success",
+        connectionId,
+        details: { expiresAt },
+      });
+      return access_token;
+    } catch (err: any) {
+      console.error(
+        `[TokenProvider] Refresh failed for ${connectionId}:`,
+        err.response?.data || err.message
+      );
+      await recordAuthEvent({
+        type: "refresh",
+        outcome: "failure",
+        reason: err.response?.data?.error || err.message,
+        connectionId,
+      });
+      throw new Error("TOKEN_REFRESH_FAILED");
+    }
+  }
+}
+
+export const tokenProvider = new TokenProvider();
@@ -0,0 +1,171 @@
+import {
+  Base,
+  Table,
+  Page,
+  RecordComment,
+  RecordLink,
+  RevisionHistory,
+  SyncWatermark,
+} from "../models/airtable.model";
+// Only used inside functions, so the import cycle through
+// normalize.service is harmless
+import { purgeRecordAttachments } from "./attachment.service";
+
+// Matches documents that have not been tombstoned (deletedAt missing or null)
+export const NOT_DELETED = { deletedAt: null };
+
+/**
+ * Restricts a read filter to live documents unless the caller asked for
+ * tombstones too.
+ */
+export function excludeTombstones(query: any, includeDeleted = false): any {
+  return includeDeleted ? query : { ...query, ...NOT_DELETED };
+}
+
+export async function tombstonePages(
+  baseId: string,
+  tableId: string,
+  pageIds: string[]
+): Promise<number> {
+  const result = await Page.updateMany(
+    { baseId, tableId, pageId: { $in: pageIds }, ...NOT_DELETED },
+    { deletedAt: new Date() }
+  );
+
+  // Links into deleted records are hidden on read; their own links go
+  await RecordLink.deleteMany({ baseId, fromPageId: { $in: pageIds } });
+
+  return result.modifiedCount;
+}
+
+/**
+ * Tombstones a table's records that the last full sync did not return.
+ */
+export async function tombstoneMissingPages(
+  baseId: string,
+  tableId: string,
+  seenPageIds: string[]
+): Promise<number> {
+  const result = await Page.updateMany(
+    { baseId, tableId, pageId: { $nin: seenPageIds }, ...NOT_DELETED },
+    { deletedAt: new Date() }
+  );
+
+  await RecordLink.deleteMany({
+    baseId,
+    fromTableId: tableId,
+    fromPageId: { $nin: seenPageIds },
+  });
+
+  return result.modifiedCount;
+}
+
+/**
+ * Tombstones the given tables and their records. Their watermarks are
+ * dropped so a table that reappears is synced in full and its records are
+ * revived.
+ */
+export async function tombstoneTables(
+  baseId: string,
+  tableIds: string[]
+): Promise<void> {
+  const deletedAt = new Date();
+
+  await Promise.all([
+    Table.updateMany(
+      { baseId, tableId: { $in: tableIds }, ...NOT_DELETED },
+      { deletedAt }
+    ),
+    Page.updateMany(
+      { baseId, tableId: { $in: tableIds }, ...NOT_DELETED },
+      { deletedAt }
+    ),
+    SyncWatermark.deleteMany({ baseId, tableId: { $in: tableIds } }),
+    RecordLink.deleteMany({ baseId, fromTableId: { $in: tableIds } }),
+  ]);
+}
+
+/**
+ * Tombstones tables of a base that Airtable no longer lists.
+ */
+export async function tombstoneMissingTables(
+  baseId: string,
+  seenTableIds: string[]
+): Promise<number> {
+  const missing = await Table.distinct("tableId", {
+    baseId,
+    tableId: { $nin: seenTableIds },
+    ...NOT_DELETED,
+  });
+  if (!missing.length) return 0;
+
+  await tombstoneTables(baseId, missing);
+  return missing.length;
+}
+
+/**
+ * Tombstones bases last synced by this connection that it can no longer
+ * see, with everything under them.
+ */
+export async function tombstoneMissingBases(
+  connectionId: string,
+  seenBaseIds: string[]
+): Promise<number> {
+  const missing = await Base.distinct("baseId", {
+    connectionId,
+    baseId: { $nin: seenBaseIds },
+    ...NOT_DELETED,
+  });
+  if (!missing.length) return 0;
+
+  const deletedAt = new Date();
+  const inMissing = { baseId: { $in: missing }, ...NOT_DELETED };
+
+  await Promise.all([
+    Base.updateMany(inMissing, { deletedAt }),
+    Table.updateMany(inMissing, { deletedAt }),
+    Page.updateMany(inMissing, { deletedAt }),
+    SyncWatermark.deleteMany({ baseId: { $in: missing } }),
+    RecordLink.deleteMany({ baseId: { $in: missing } }),
+  ]);
+
+  return missing.length;
+}
+
+/**
+ * Permanently removes tombstones (optionally only those older than a cutoff)
+ * and everything kept for the purged records: revision history, comments,
+ * links to and from them, and mirrored attachments.
+ */
+export async function purgeTombstones(olderThan?: Date) {
+  const filter = {
+    deletedAt: olderThan ? { $lte: olderThan } : { $ne: null },
+  };
+
+  const pageIds = await Page.distinct("pageId", filter);
+  const ofPages = { $in: pageIds };
+
+  const [bases, tables, pages, revisions, comments, links, attachments] =
+    await Promise.all([
+      Base.deleteMany(filter),
+      Table.deleteMany(filter),
+      Page.deleteMany(filter),
+      RevisionHistory.deleteMany({ pageId: ofPages }),
+      RecordComment.deleteMany({ $or: [filter, { pageId: ofPages }] }),
+      RecordLink.deleteMany({
+        $or: [{ fromPageId: ofPages }, { toPageId: ofPages }],
+      }),
+      purgeRecordAttachments(pageIds),
+    ]);
+
+  return {
+    bases: bases.deletedCount,
+    tables: tables.deletedCount,
+    pages: pages.deletedCount,
+    revisions: revisions.deletedCount,
+    comments: comments.deletedCount,
+    links: links.deletedCount,
+    attachments: attachments.attachments,
+    attachmentFiles: attachments.files,
+  };
+}
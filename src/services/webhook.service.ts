@@ -0,0 +1,262 @@
+import crypto from "crypto";
+import { Page, Webhook, IWebhook } from "../models/airtable.model";
+import { AirtableService } from "./airtable.service";
+import { decryptValue, encryptValue } from "./crypto.service";
+import { tombstonePages } from "./tombstone.service";
+import { renormalizeTable } from "./normalize.service";
+
+export const DEFAULT_WEBHOOK_SPECIFICATION = {
+  options: {
+    filters: {
+      dataTypes: ["tableData", "tableFields", "tableMetadata"],
+    },
+  },
+};
+
+export interface WebhookApplyResult {
+  payloads: number;
+  created: number;
+  updated: number;
+  deleted: number;
+  tablesChanged: number;
+}
+
+/**
+ * Checks the X-Airtable-Content-MAC header: an HMAC-SHA256 of the raw
+ * request body keyed with the webhook's (base64) MAC secret.
+ */
+export function verifyWebhookMac(
+  rawBody: Buffer,
+  header: string | undefined,
+  macSecretBase64: string
+): boolean {
+  if (!header || !header.startsWith("hmac-sha256=")) return false;
+
+  const expected = crypto
+    .createHmac("sha256", Buffer.from(macSecretBase64, "base64"))
+    .update(rawBody)
+    .digest("hex");
+  const received = header.slice("hmac-sha256=".length);
+
+  return (
+    received.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected))
+  );
+}
+
+export function readMacSecret(webhook: IWebhook): string {
+  return decryptValue(webhook.macSecret, webhook.macSecretKeyId);
+}
+
+export async function registerWebhook(
+  service: AirtableService,
+  baseId: string,
+  notificationUrl: string,
+  specification: any = DEFAULT_WEBHOOK_SPECIFICATION
+) {
+  const created = await service.createWebhook(
+    baseId,
+    notificationUrl,
+    specification
+  );
+  const secret = encryptValue(created.macSecretBase64);
+
+  return Webhook.create({
+    webhookId: created.id,
+    baseId,
+    connectionId: service.connectionId,
+    macSecret: secret.ciphertext,
+    macSecretKeyId: secret.keyId,
+    notificationUrl,
+    specification,
+    expirationTime: created.expirationTime,
+  });
+}
+
+// Whether a changed table's entry carries edits to its schema
+function hasSchemaChanges(change: any): boolean {
+  return (
+    !!change.changedMetadata ||
+    Object.keys(change.createdFieldsById || {}).length > 0 ||
+    Object.keys(change.changedFieldsById || {}).length > 0 ||
+    (change.destroyedFieldIds || []).length > 0
+  );
+}
+
+/**
+ * Brings a changed table's records in line with its re-read schema: values
+ * of removed fields are dropped, and typed values are recomputed when a
+ * field's type or options changed.
+ */
+async function applyFieldChanges(baseId: string, tableId: string, change: any) {
+  const destroyed: string[] = change.destroyedFieldIds || [];
+
+  if (destroyed.length) {
+    await Page.updateMany(
+      { baseId, tableId },
+      {
+        $unset: Object.fromEntries(
+          destroyed.flatMap((id) => [
+            [`fields.${id}`, 1],
+            [`normalizedFields.${id}`, 1],
+          ])
+        ),
+      }
+    );
+  }
+  if (Object.keys(change.changedFieldsById || {}).length) {
+    await renormalizeTable(baseId, tableId);
+  }
+}
+
+/**
+ * Applies one webhook payload (v0 format) to Table and Page. Payloads only
+ * carry a field's name and type, so any schema change re-reads the base's
+ * tables with fetchTables. Created and changed records are re-read through
+ * the REST API too, since webhook cell values come in a different shape
+ * (selects as objects, links with names, grouped lookups) from what
+ * fetchPages stores.
+ */
+export async function applyWebhookPayload(
+  baseId: string,
+  service: AirtableService,
+  payload: any,
+  result: WebhookApplyResult
+): Promise<void> {
+  const createdTables = Object.entries<any>(payload.createdTablesById || {});
+  const changedTables = Object.entries<any>(payload.changedTablesById || {});
+  const destroyedTables: string[] = payload.destroyedTableIds || [];
+  const schemaChanged = changedTables.filter(([, change]) =>
+    hasSchemaChanges(change)
+  );
+
+  // Also tombstones the destroyed tables
+  if (createdTables.length || schemaChanged.length || destroyedTables.length) {
+    await service.fetchTables(baseId);
+    result.tablesChanged +=
+      createdTables.length + schemaChanged.length + destroyedTables.length;
+  }
+
+  for (const [tableId, change] of schemaChanged) {
+    await applyFieldChanges(baseId, tableId, change);
+  }
+
+  for (const [tableId, created] of createdTables) {
+    result.created += await service.refreshRecords(
+      baseId,
+      tableId,
+      Object.keys(created.recordsById || {})
+    );
+  }
+
+  for (const [tableId, change] of changedTables) {
+    result.created += await service.refreshRecords(
+      baseId,
+      tableId,
+      Object.keys(change.createdRecordsById || {})
+    );
+    result.updated += await service.refreshRecords(
+      baseId,
+      tableId,
+      Object.keys(change.changedRecordsById || {})
+    );
+
+    const destroyed: string[] = change.destroyedRecordIds || [];
+    if (destroyed.length) {
+      result.deleted += await tombstonePages(baseId, tableId, destroyed);
+    }
+  }
+}
+
+/**
+ * Pulls every payload after the webhook's stored cursor and applies it. The
+ * cursor is saved after each page so a crash resumes where it stopped.
+ */
+export async function processWebhookPayloads(
+  webhookId: string
+): Promise<WebhookApplyResult> {
+  const webhook = await Webhook.findOne({ webhookId });
+  if (!webhook) {
+    throw new Error("WEBHOOK_NOT_FOUND");
+  }
+
+  const service = new AirtableService(webhook.connectionId);
+  const result: WebhookApplyResult = {
+    payloads: 0,
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    tablesChanged: 0,
+  };
+
+  try {
+    let cursor = webhook.cursor;
+    let mightHaveMore = true;
+
+    while (mightHaveMore) {
+      const page = await service.fetchWebhookPayloads(
+        webhook.baseId,
+        webhookId,
+        cursor
+      );
+
+      for (const payload of page.payloads) {
+        if (payload.error) {
+          console.warn(
+            `[Webhooks] ${webhookId} payload error: ${
+              payload.code || "unknown"
+            }`
+          );
+          continue;
+        }
+
+        await applyWebhookPayload(webhook.baseId, service, payload, result);
+        result.payloads++;
+      }
+
+      cursor = page.cursor;
+      mightHaveMore = page.mightHaveMore && page.payloads.length > 0;
+
+      await Webhook.updateOne(
+        { _id: webhook._id },
+        { cursor, lastProcessedAt: new Date(), $unset: { lastError: 1 } }
+      );
+    }
+
+    console.log(
+      `[Webhooks] ${webhookId}: ${result.payloads} payloads, ${result.created} created, ${result.updated} updated, ${result.deleted} deleted`
+    );
+    return result;
+  } catch (err: any) {
+    await Webhook.updateOne({ _id: webhook._id }, { lastError: err.message });
+    throw err;
+  }
+}
+
+const processing = new Set<string>();
+const pendingRerun = new Set<string>();
+
+/**
+ * Processes a webhook's payloads in the background. Pings that arrive while
+ * a run is in progress trigger one more run afterwards instead of a
+ * concurrent one, so payloads are applied in cursor order.
+ */
+export function scheduleWebhookProcessing(webhookId: string): void {
+  if (processing.has(webhookId)) {
+    pendingRerun.add(webhookId);
+    return;
+  }
+
+  processing.add(webhookId);
+
+  processWebhookPayloads(webhookId)
+    .catch((err) =>
+      console.error(`[Webhooks] Processing ${webhookId} failed:`, err.message)
+    )
+    .finally(() => {
+      processing.delete(webhookId);
+      if (pendingRerun.delete(webhookId)) {
+        scheduleWebhookProcessing(webhookId);
+      }
+    });
+}
@@ -0,0 +1,90 @@
+import { Page } from "../models/airtable.model";
+import { NOT_DELETED } from "./tombstone.service";
+
+export interface SyncConcurrency {
+  bases: number;
+  tablesPerBase: number;
+}
+
+// Read lazily: route modules load .env after their imports are evaluated
+export function getSyncConcurrency(): SyncConcurrency {
+  return {
+    bases: Number(process.env.SYNC_BASE_CONCURRENCY) || 3,
+    tablesPerBase: Number(process.env.SYNC_TABLE_CONCURRENCY) || 2,
+  };
+}
+
+/**
+ * Runs `worker` over the items in order with at most `concurrency` running
+ * at once. A failing item doesn't stop the others; outcomes come back in
+ * input order.
+ */
+export async function runQueue<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const drain = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = {
+          status: "fulfilled",
+          value: await worker(items[index]),
+        };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      drain
+    )
+  );
+
+  return results;
+}
+
+/**
+ * Live record counts from the last syncs, per table and per base. Used to
+ * start the biggest work first so it doesn't end up running alone at the
+ * end; tables never synced count as empty.
+ */
+export async function getStoredRecordCounts(baseIds: string[]) {
+  const counts = await Page.aggregate([
+    { $match: { baseId: { $in: baseIds }, ...NOT_DELETED } },
+    {
+      $group: {
+        _id: { baseId: "$baseId", tableId: "$tableId" },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const tables = new Map<string, number>();
+  const bases = new Map<string, number>();
+
+  for (const { _id, count } of counts) {
+    tables.set(_id.tableId, count);
+    bases.set(_id.baseId, (bases.get(_id.baseId) || 0) + count);
+  }
+
+  return { tables, bases };
+}
+
+// Largest first by the given sizes; stable for equal sizes
+export function largestFirst<T>(
+  items: T[],
+  idOf: (item: T) => string,
+  sizes: Map<string, number>
+): T[] {
+  return [...items].sort(
+    (a, b) => (sizes.get(idOf(b)) || 0) - (sizes.get(idOf(a)) || 0)
+  );
+}